@@ -0,0 +1,99 @@
+import "dotenv/config";
+import { createPublicClient, http, type Address, type Chain } from "viem";
+import { baseSepolia, sepolia } from "viem/chains";
+
+// ============================================
+// Chain registry
+//
+// RPC and contract addresses for every network the indexer covers, keyed by
+// chainId. Agents are executed on the chain their permission was granted on
+// (agent.chainId), so one agent service serves all of them.
+//
+// This is the only copy of the contract and token addresses - the backend's
+// registry (backend/src/config/chains.ts) lists the same chainIds and RPCs only.
+// ============================================
+
+export interface ChainConfig {
+  chain: Chain;
+  rpcUrl: string;
+  delegationManager: Address;
+  uniswap: {
+    SWAP_ROUTER: Address;
+    QUOTER_V2: Address;
+  };
+  aave: {
+    POOL: Address;
+  };
+  tokens: Record<string, Address>;
+}
+
+// MetaMask Delegation Framework v1.3.0 (same address on every chain)
+const DELEGATION_MANAGER = "0xdb9B1e94B5b69Df7e401DDbedE43491141047dB3" as Address;
+
+export const CHAINS: Record<number, ChainConfig> = {
+  [sepolia.id]: {
+    chain: sepolia,
+    // RPC_URL is the original Sepolia-only setting
+    rpcUrl: process.env.SEPOLIA_RPC_URL || process.env.RPC_URL || "https://ethereum-sepolia-rpc.publicnode.com",
+    delegationManager: DELEGATION_MANAGER,
+    uniswap: {
+      SWAP_ROUTER: "0x3bFA4769FB09eefC5a80d6E87c3B9C650f7Ae48E",
+      QUOTER_V2: "0xEd1f6473345F45b75F8179591dd5bA1888cf2FB3",
+    },
+    aave: {
+      POOL: "0x6Ae43d3271ff6888e7Fc43Fd7321a503ff738951",
+    },
+    tokens: {
+      WETH: "0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14",
+      USDC: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+      UNI: "0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984",
+      DAI: "0xFF34B3d4Aee8ddCd6F9AFFFB6Fe49bD371b8a357",
+      LINK: "0xf8Fb3713D459D7C1018BD0A49D19b4C44290EBE5",
+    },
+  },
+  [baseSepolia.id]: {
+    chain: baseSepolia,
+    rpcUrl: process.env.BASE_SEPOLIA_RPC_URL || "https://sepolia.base.org",
+    delegationManager: DELEGATION_MANAGER,
+    uniswap: {
+      SWAP_ROUTER: "0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4",
+      QUOTER_V2: "0xC5290058841028F1614F3A6F0F5816cAd0df5E27",
+    },
+    aave: {
+      POOL: "0x8bAB6d1b75f19e9eD9fCe8b9BD338844fF79aE27",
+    },
+    tokens: {
+      WETH: "0x4200000000000000000000000000000000000006",
+      USDC: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    },
+  },
+};
+
+export function getChainConfig(chainId: number): ChainConfig {
+  const config = CHAINS[chainId];
+  if (!config) {
+    throw new Error(`Unsupported chain: ${chainId}`);
+  }
+  return config;
+}
+
+// ============================================
+// Read-only access to one chain
+// ============================================
+
+export interface ChainContext {
+  chain: ChainConfig;
+  publicClient: ReturnType<typeof createPublicClient>;
+}
+
+export function createChainContext(chainId: number): ChainContext {
+  const chain = getChainConfig(chainId);
+
+  return {
+    chain,
+    publicClient: createPublicClient({
+      chain: chain.chain,
+      transport: http(chain.rpcUrl),
+    }),
+  };
+}
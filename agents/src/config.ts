@@ -1,25 +1,17 @@
-import { type Address } from "viem";
-import { sepolia } from "viem/chains";
-
-export const CHAIN = sepolia;
+// Chain-specific addresses (Uniswap, Aave, tokens, RPC) live in chains.ts
 
 export const BACKEND_URL = process.env.BACKEND_URL || "http://localhost:3001";
 
+// Shared secret between the backend and this service (sent both ways as a bearer token)
+export const AGENT_SERVICE_TOKEN = process.env.AGENT_SERVICE_TOKEN;
 
-// Uniswap V3 Addresses on Sepolia
-export const UNISWAP = {
-  SWAP_ROUTER: "0x3bFA4769FB09eefC5a80d6E87c3B9C650f7Ae48E" as Address,
-  QUOTER_V2: "0xEd1f6473345F45b75F8179591dd5bA1888cf2FB3" as Address,
-};
-
-// Token Addresses on Sepolia
-export const TOKENS: Record<string, Address> = {
-  WETH: "0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14",
-  USDC: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
-  UNI: "0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984",
-  DAI: "0xFF34B3d4Aee8ddCd6F9AFFFB6Fe49bD371b8a357",
-  LINK: "0xf8Fb3713D459D7C1018BD0A49D19b4C44290EBE5",
-};
+// Headers for backend API calls (service credentials)
+export function backendHeaders(): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    ...(AGENT_SERVICE_TOKEN && { Authorization: `Bearer ${AGENT_SERVICE_TOKEN}` }),
+  };
+}
 
 // Swap Router ABI (exactInputSingle)
 export const SWAP_ROUTER_ABI = [
@@ -82,6 +74,32 @@ export const ERC20_ABI = [
     outputs: [{ name: "", type: "uint8" }],
     stateMutability: "view",
   },
+  {
+    name: "Transfer",
+    type: "event",
+    inputs: [
+      { name: "from", type: "address", indexed: true },
+      { name: "to", type: "address", indexed: true },
+      { name: "value", type: "uint256", indexed: false },
+    ],
+  },
+] as const;
+
+// Uniswap V3 Pool ABI (Swap event)
+export const UNISWAP_V3_POOL_ABI = [
+  {
+    name: "Swap",
+    type: "event",
+    inputs: [
+      { name: "sender", type: "address", indexed: true },
+      { name: "recipient", type: "address", indexed: true },
+      { name: "amount0", type: "int256", indexed: false },
+      { name: "amount1", type: "int256", indexed: false },
+      { name: "sqrtPriceX96", type: "uint160", indexed: false },
+      { name: "liquidity", type: "uint128", indexed: false },
+      { name: "tick", type: "int24", indexed: false },
+    ],
+  },
 ] as const;
 
 // Quoter V2 ABI for getting quotes
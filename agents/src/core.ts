@@ -0,0 +1,441 @@
+import "dotenv/config";
+import {
+  createWalletClient,
+  http,
+  encodeFunctionData,
+  encodePacked,
+  keccak256,
+  type Address,
+  type Hex,
+  type TransactionReceipt,
+} from "viem";
+import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
+import { createChainContext, type ChainContext } from "./chains.js";
+import { assertLeaseHeld, renewLease, LEASE_LOST, type AgentLease } from "./lease.js";
+import { postExecutionReport, type StrandedBalance } from "./report.js";
+import { totalGasUsed } from "./receipt.js";
+import { decryptPermissionContext } from "./encryption.js";
+import { decodeRevert, REDEMPTION_ERRORS_ABI, type ExecutionErrorCode } from "./revert.js";
+
+// ============================================
+// Executor core
+//
+// Strategies describe WHAT an agent executes (a plan of steps) and how to read
+// the result. The core owns HOW: session keys, clients, redemption encoding,
+// sending with retries, receipts, gas accounting and reporting.
+// ============================================
+
+
+const SEND_ATTEMPTS = 3;
+const SEND_RETRY_DELAY_MS = 2_000;
+const RECEIPT_TIMEOUT_MS = 120_000;
+
+// Headroom added to the simulated gas of a redemption (percent)
+const GAS_HEADROOM_PERCENT = 20n;
+
+// ============================================
+// DelegationManager ABI for redeemDelegations
+// ============================================
+
+export const DELEGATION_MANAGER_ABI = [
+  {
+    name: "redeemDelegations",
+    type: "function",
+    inputs: [
+      { name: "permissionContexts", type: "bytes[]" },
+      { name: "modes", type: "bytes32[]" },
+      { name: "executionCallDatas", type: "bytes[]" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+] as const;
+
+// Single execution mode (ModeCode.SingleDefault)
+export const SINGLE_DEFAULT_MODE = "0x0000000000000000000000000000000000000000000000000000000000000000" as Hex;
+
+// ============================================
+// Types
+// ============================================
+
+// Fields every claimed agent has, strategies extend this with their config
+export interface BaseAgent extends AgentLease {
+  _id: string;
+  agentType: string;
+  userAddress: string;
+  chainId: number;
+  permissionContext: Hex; // Encrypted when claimed, decrypted by runStrategy
+  delegationManager: Address;
+  sessionKeyAddress: Address;
+  spendingLimit: string;
+}
+
+export interface Execution {
+  target: Address;
+  value: bigint;
+  callData: Hex;
+}
+
+// A transaction of the plan: a delegated redemption, or a direct call from the session key
+export type CallStep = { kind: "call"; label: string; to: Address; data: Hex; gas: bigint };
+
+export type ExecutionStep =
+  | { kind: "redeem"; label: string; execution: Execution; gas: bigint }
+  | CallStep;
+
+export interface ExecutionPlan {
+  steps: ExecutionStep[];
+  amountIn: string;
+  // Tokens the first redemption moves to the session key - reported as stranded if a later step fails
+  custody?: { token: Address; amount: bigint };
+}
+
+// A plan that was not executed because the quote was outside tolerance
+export interface SkippedPlan {
+  skipped: "slippage";
+  error: string;
+}
+
+// Why an execution was not sent: quote outside tolerance, or the redemption would revert
+export type SkipReason = "slippage" | "simulation";
+
+export interface ExecutionResult {
+  success: boolean;
+  txHash?: string;
+  error?: string;
+  errorCode?: ExecutionErrorCode;
+  amountIn?: string;
+  amountOut?: string;
+  effectivePrice?: string;
+  gasUsed?: string;
+  stranded?: StrandedBalance;
+  skipped?: SkipReason;
+  // Set with skipped "simulation" when the delegation can never be redeemed again
+  terminal?: boolean;
+}
+
+// Result of a strategy's pre-execution check (e.g. price trigger)
+export interface TriggerCheck {
+  shouldExecute: boolean;
+  expired?: boolean;
+  reason: string;
+}
+
+// Clients and addresses for the agent's chain, plus the session key that sends
+export interface ExecutionContext extends ChainContext {
+  sessionAccount: PrivateKeyAccount;
+  walletClient: ReturnType<typeof createWalletClient>;
+}
+
+export interface AgentStrategy<A extends BaseAgent = BaseAgent> {
+  agentType: string;
+  label: string;
+  // Environment variables holding the session key, first one set wins
+  privateKeyEnv: string[];
+  // Decide whether the agent should execute now (omitted = always)
+  check?(agent: A, client: ChainContext): Promise<TriggerCheck>;
+  // Build the transactions to send
+  plan(agent: A, ctx: ExecutionContext): Promise<ExecutionPlan | SkippedPlan>;
+  // Read the realized outcome from the final receipt
+  interpret?(
+    agent: A,
+    receipt: TransactionReceipt,
+    plan: ExecutionPlan,
+    ctx: ExecutionContext
+  ): Promise<Pick<ExecutionResult, "amountOut" | "effectivePrice">>;
+}
+
+// ============================================
+// Session accounts and clients
+// ============================================
+
+export function getSessionAccount(privateKeyEnv: string[]): PrivateKeyAccount {
+  const name = privateKeyEnv.find((env) => process.env[env]);
+  if (!name) {
+    throw new Error(`${privateKeyEnv.join(" (or ")}${privateKeyEnv.length > 1 ? ")" : ""} not set in environment`);
+  }
+  return privateKeyToAccount(process.env[name] as Hex);
+}
+
+export function createExecutionContext(chainId: number, sessionAccount: PrivateKeyAccount): ExecutionContext {
+  const client = createChainContext(chainId);
+
+  return {
+    ...client,
+    sessionAccount,
+    walletClient: createWalletClient({
+      account: sessionAccount,
+      chain: client.chain.chain,
+      transport: http(client.chain.rpcUrl),
+    }),
+  };
+}
+
+// ============================================
+// Execution calldata encoding
+// Matches SDK's encodeSingleExecution
+// ============================================
+
+export function encodeSingleExecution(execution: Execution): Hex {
+  // For single execution, use packed encoding: (address, uint256, bytes)
+  return encodePacked(
+    ["address", "uint256", "bytes"],
+    [execution.target, execution.value, execution.callData]
+  );
+}
+
+// The permission's ERC20 enforcers only accept single-mode executions
+function redemptionArgs(agent: BaseAgent, execution: Execution): readonly [Hex[], Hex[], Hex[]] {
+  return [[agent.permissionContext], [SINGLE_DEFAULT_MODE], [encodeSingleExecution(execution)]];
+}
+
+export function encodeRedemption(agent: BaseAgent, execution: Execution): Hex {
+  return encodeFunctionData({
+    abi: DELEGATION_MANAGER_ABI,
+    functionName: "redeemDelegations",
+    args: redemptionArgs(agent, execution),
+  });
+}
+
+// ============================================
+// Send a transaction and wait for its receipt
+// The transaction is signed once, so re-broadcasting after a network error
+// can never send it twice (same nonce, same hash).
+// ============================================
+
+export async function sendTransaction(
+  ctx: ExecutionContext,
+  request: { to: Address; data: Hex; gas: bigint }
+): Promise<{ txHash: Hex; receipt: TransactionReceipt }> {
+  const prepared = await ctx.walletClient.prepareTransactionRequest({
+    account: ctx.sessionAccount,
+    chain: ctx.walletClient.chain,
+    to: request.to,
+    data: request.data,
+    gas: request.gas,
+  });
+  const serializedTransaction = await ctx.walletClient.signTransaction({ ...prepared, chain: ctx.walletClient.chain });
+  const txHash = keccak256(serializedTransaction);
+
+  for (let attempt = 1; attempt <= SEND_ATTEMPTS; attempt++) {
+    try {
+      await ctx.walletClient.sendRawTransaction({ serializedTransaction });
+      break;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      // An earlier attempt reached the node before the error
+      if (attempt > 1 && /already known|nonce too low/i.test(message)) {
+        break;
+      }
+      if (attempt === SEND_ATTEMPTS) {
+        throw error;
+      }
+
+      console.error(`   ⚠️ Send failed (attempt ${attempt}/${SEND_ATTEMPTS}): ${message}`);
+      await new Promise((resolve) => setTimeout(resolve, SEND_RETRY_DELAY_MS * attempt));
+    }
+  }
+
+  const receipt = await ctx.publicClient.waitForTransactionReceipt({
+    hash: txHash,
+    timeout: RECEIPT_TIMEOUT_MS,
+  });
+
+  return { txHash, receipt };
+}
+
+// Only redeem through the chain's known DelegationManager
+function assertKnownDelegationManager(ctx: ExecutionContext, agent: BaseAgent): void {
+  if (agent.delegationManager.toLowerCase() !== ctx.chain.delegationManager.toLowerCase()) {
+    throw new Error(`Unknown delegation manager ${agent.delegationManager} on ${ctx.chain.chain.name}`);
+  }
+}
+
+// ============================================
+// Pre-flight simulation
+// A redemption that would revert is not broadcast, so a broken agent costs no gas.
+// The estimate replaces the step's fixed gas limit.
+// ============================================
+
+export type SimulationResult =
+  | { ok: true; gas: bigint }
+  | { ok: false; code: ExecutionErrorCode; reason: string; retryable: boolean };
+
+export async function simulateRedemption(
+  ctx: ExecutionContext,
+  agent: BaseAgent,
+  execution: Execution
+): Promise<SimulationResult> {
+  assertKnownDelegationManager(ctx, agent);
+
+  const request = {
+    address: ctx.chain.delegationManager,
+    abi: [...DELEGATION_MANAGER_ABI, ...REDEMPTION_ERRORS_ABI],
+    functionName: "redeemDelegations",
+    args: redemptionArgs(agent, execution),
+    account: ctx.sessionAccount.address,
+  } as const;
+
+  try {
+    await ctx.publicClient.simulateContract(request);
+    const estimate = await ctx.publicClient.estimateContractGas(request);
+    return { ok: true, gas: estimate + (estimate * GAS_HEADROOM_PERCENT) / 100n };
+  } catch (error) {
+    const revert = decodeRevert(error);
+    if (!revert) throw error;
+    return { ok: false, ...revert };
+  }
+}
+
+function sendStep(ctx: ExecutionContext, agent: BaseAgent, step: ExecutionStep) {
+  if (step.kind === "redeem") {
+    assertKnownDelegationManager(ctx, agent);
+
+    return sendTransaction(ctx, {
+      to: ctx.chain.delegationManager,
+      data: encodeRedemption(agent, step.execution),
+      gas: step.gas,
+    });
+  }
+
+  return sendTransaction(ctx, { to: step.to, data: step.data, gas: step.gas });
+}
+
+// ============================================
+// Run a strategy's plan for a claimed agent
+// ============================================
+
+export async function runStrategy<A extends BaseAgent>(strategy: AgentStrategy<A>, agent: A): Promise<ExecutionResult> {
+  console.log(`\n🚀 Executing ${strategy.label} for agent ${agent._id}`);
+
+  assertLeaseHeld(agent._id, agent);
+
+  // Set once tokens have moved to the session key - reported on failure so they can be recovered
+  let stranded: StrandedBalance | undefined;
+
+  try {
+    // The backend only hands out the encrypted delegation - decrypt it for this run only
+    const redeemable: A = { ...agent, permissionContext: decryptPermissionContext(agent.permissionContext) };
+
+    const sessionAccount = getSessionAccount(strategy.privateKeyEnv);
+    console.log(`   Session Account: ${sessionAccount.address}`);
+
+    const ctx = createExecutionContext(agent.chainId, sessionAccount);
+    console.log(`   Chain: ${ctx.chain.chain.name}`);
+
+    const plan = await strategy.plan(redeemable, ctx);
+    if ("skipped" in plan) {
+      console.log(`   ⏭️ ${plan.error}`);
+      return { success: false, skipped: plan.skipped, error: plan.error };
+    }
+
+    const receipts: TransactionReceipt[] = [];
+    let txHash: Hex | undefined;
+
+    for (const [index, step] of plan.steps.entries()) {
+      console.log(`   ▶️ Step ${index + 1}/${plan.steps.length}: ${step.label}...`);
+
+      // A step can outlast the lease (send retries, receipt wait) - stop if another worker may have taken over
+      if (!(await renewLease(agent._id))) {
+        console.log(`   🔒 ${LEASE_LOST}`);
+        return {
+          success: false,
+          txHash,
+          error: LEASE_LOST,
+          errorCode: "lease-lost",
+          gasUsed: receipts.length > 0 ? totalGasUsed(...receipts) : undefined,
+          stranded,
+        };
+      }
+
+      // Later steps depend on state the first one creates, so only the first redemption is simulated
+      let gas = step.gas;
+      if (index === 0 && step.kind === "redeem") {
+        const simulation = await simulateRedemption(ctx, redeemable, step.execution);
+
+        if (!simulation.ok) {
+          console.log(`   🧪 Simulation reverted (${simulation.retryable ? "retryable" : "terminal"}): ${simulation.reason}`);
+          return {
+            success: false,
+            skipped: "simulation",
+            terminal: !simulation.retryable,
+            error: simulation.reason,
+            errorCode: simulation.code,
+          };
+        }
+
+        gas = simulation.gas;
+        console.log(`   🧪 Simulation passed, gas limit ${gas}`);
+      }
+
+      const sent = await sendStep(ctx, redeemable, { ...step, gas });
+      txHash = sent.txHash;
+      receipts.push(sent.receipt);
+
+      console.log(`   📦 ${step.label} TX ${txHash} confirmed in block ${sent.receipt.blockNumber}, Status: ${sent.receipt.status}`);
+
+      if (sent.receipt.status !== "success") {
+        return {
+          success: false,
+          txHash,
+          error: `${step.label} reverted`,
+          errorCode: "transaction-reverted",
+          gasUsed: totalGasUsed(...receipts),
+          stranded,
+        };
+      }
+
+      if (step.kind === "redeem" && plan.custody && !stranded) {
+        stranded = {
+          token: plan.custody.token,
+          amount: plan.custody.amount.toString(),
+          holder: sessionAccount.address,
+        };
+      }
+    }
+
+    const outcome = strategy.interpret
+      ? await strategy.interpret(redeemable, receipts[receipts.length - 1], plan, ctx)
+      : {};
+
+    return {
+      success: true,
+      txHash,
+      amountIn: plan.amountIn,
+      ...outcome,
+      gasUsed: totalGasUsed(...receipts),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`   ❌ Execution error: ${errorMessage}`);
+    const revert = decodeRevert(error);
+    return {
+      success: false,
+      error: revert?.reason ?? errorMessage,
+      errorCode: revert?.code ?? "unknown",
+      stranded,
+    };
+  }
+}
+
+// ============================================
+// Report execution result to backend
+// ============================================
+
+export async function reportExecution(agentId: string, executionId: string, result: ExecutionResult): Promise<void> {
+  await postExecutionReport(agentId, {
+    executionId,
+    success: result.success,
+    txHash: result.txHash,
+    amountIn: result.amountIn,
+    amountOut: result.amountOut,
+    effectivePrice: result.effectivePrice,
+    gasUsed: result.gasUsed,
+    error: result.error,
+    errorCode: result.errorCode,
+    stranded: result.stranded,
+    skipped: result.skipped,
+    terminal: result.terminal,
+  });
+}
@@ -0,0 +1,41 @@
+import "dotenv/config";
+import { constants, createDecipheriv, privateDecrypt } from "crypto";
+import type { Hex } from "viem";
+
+// ============================================
+// Permission context decryption
+//
+// The backend stores permissionContext encrypted with this service's public
+// key (see backend/src/services/encryption.ts). Only this service holds the
+// private key, so only it can read the redeemable delegation.
+// Format: enc:v1:<wrapped key>:<iv>:<auth tag>:<ciphertext> (base64 parts)
+// ============================================
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+// PEM from the environment (newlines may be escaped as \n)
+const PRIVATE_KEY = process.env.PERMISSION_CONTEXT_PRIVATE_KEY?.replace(/\\n/g, "\n");
+
+export function decryptPermissionContext(value: string): Hex {
+  if (!value.startsWith(ENCRYPTED_PREFIX)) {
+    throw new Error("Permission context is not encrypted - refusing to use it");
+  }
+  if (!PRIVATE_KEY) {
+    throw new Error("PERMISSION_CONTEXT_PRIVATE_KEY not set in environment");
+  }
+
+  const [wrappedKey, iv, authTag, ciphertext] = value
+    .slice(ENCRYPTED_PREFIX.length)
+    .split(":")
+    .map((part) => Buffer.from(part, "base64"));
+
+  const key = privateDecrypt(
+    { key: PRIVATE_KEY, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: "sha256" },
+    wrappedKey
+  );
+
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8") as Hex;
+}
@@ -1,8 +1,8 @@
 // DCA Agent Service
 //
-// This service is responsible for executing DCA swaps using MetaMask delegation.
-// It fetches due agents from the backend indexer and executes swaps using
-// sendTransactionWithDelegation.
+// This service is responsible for executing agents using MetaMask delegation.
+// It fetches due agents from the backend indexer and runs each one through the
+// strategy registered for its agent type.
 //
 // Usage:
 //   npm run trigger   - Trigger execution of all due agents (one-time)
@@ -12,4 +12,5 @@
 // - A serverless function (AWS Lambda, Vercel, etc.)
 // - Manual execution for testing
 
-export { executeDCASwap, reportExecution } from "./executor.js";
+export { runAgent, registerStrategy, getStrategy, type AgentRun } from "./registry.js";
+export { runStrategy, reportExecution, type AgentStrategy, type ExecutionPlan, type ExecutionResult } from "./core.js";
@@ -0,0 +1,108 @@
+import { hostname } from "os";
+import { BACKEND_URL, backendHeaders } from "./config.js";
+
+// ============================================
+// Execution leases
+//
+// Before executing an agent, a worker must claim its lease on the backend.
+// The claim is atomic, so overlapping trigger runs (or a manual execute during
+// a trigger run) can never redeem the same agent twice. Leases expire on their
+// own, so a crashed worker does not block an agent forever.
+// ============================================
+
+// Identifies this process as the lease holder
+export const WORKER_ID = process.env.WORKER_ID || `${hostname()}-${process.pid}`;
+
+// How long a claimed lease is valid for (seconds), renewed before every transaction
+// A single step (send retries plus the receipt wait) must fit in it
+const LEASE_SECONDS = Number(process.env.LEASE_SECONDS || 300);
+
+export const LEASE_NOT_ACQUIRED = "Agent is already being executed by another worker";
+export const LEASE_LOST = "Execution lease expired before the execution finished";
+
+// Lease fields returned with the claimed agent
+export interface AgentLease {
+  lockedBy?: string;
+  lockedUntil?: string;
+}
+
+// ============================================
+// Claim the lease and return the full agent (with permission context)
+// Returns null if the agent is leased by someone else, inactive or not due
+// With recovery set, any agent with stranded tokens can be claimed
+// ============================================
+
+export async function claimAgent(agentId: string, options: { dueOnly: boolean; recovery?: boolean }) {
+  const response = await fetch(`${BACKEND_URL}/api/agents/${agentId}/claim`, {
+    method: "POST",
+    headers: backendHeaders(),
+    body: JSON.stringify({
+      workerId: WORKER_ID,
+      leaseSeconds: LEASE_SECONDS,
+      dueOnly: options.dueOnly,
+      recovery: options.recovery,
+    }),
+  });
+
+  if (response.status === 409) {
+    return null;
+  }
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(`Failed to claim agent ${agentId}: ${data.error}`);
+  }
+
+  return data.agent;
+}
+
+// ============================================
+// Extend the lease before sending the next transaction
+// Returns false if the lease expired or was claimed by another worker - the
+// caller must stop. A backend that can't be reached counts as lost too.
+// ============================================
+
+export async function renewLease(agentId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/agents/${agentId}/lease`, {
+      method: "POST",
+      headers: backendHeaders(),
+      body: JSON.stringify({ workerId: WORKER_ID, leaseSeconds: LEASE_SECONDS }),
+    });
+
+    return response.ok;
+  } catch (error) {
+    console.error(`Failed to renew lease for ${agentId}: ${error}`);
+    return false;
+  }
+}
+
+// ============================================
+// Release the lease after the execution has been reported
+// ============================================
+
+export async function releaseAgent(agentId: string): Promise<void> {
+  try {
+    await fetch(`${BACKEND_URL}/api/agents/${agentId}/release`, {
+      method: "POST",
+      headers: backendHeaders(),
+      body: JSON.stringify({ workerId: WORKER_ID }),
+    });
+  } catch (error) {
+    // Not fatal - the lease expires on its own
+    console.error(`Failed to release lease for ${agentId}: ${error}`);
+  }
+}
+
+// ============================================
+// Guard used by the executor core - refuse to redeem without a valid lease
+// ============================================
+
+export function assertLeaseHeld(agentId: string, lease: AgentLease): void {
+  const expiresAt = lease.lockedUntil ? new Date(lease.lockedUntil).getTime() : 0;
+
+  if (lease.lockedBy !== WORKER_ID || expiresAt <= Date.now()) {
+    throw new Error(`Refusing to execute agent ${agentId}: execution lease not held by ${WORKER_ID}`);
+  }
+}
@@ -0,0 +1,184 @@
+import { formatUnits, parseUnits, type Address } from "viem";
+import { ERC20_ABI, QUOTER_V2_ABI } from "./config.js";
+import type { ChainContext } from "./chains.js";
+
+// ============================================
+// Swap quotes and slippage protection
+//
+// Every swap is quoted against Uniswap QuoterV2 before any funds move. The
+// quote sets amountOutMinimum on the swap, and a quote that is already outside
+// tolerance skips the execution instead of swapping at a bad price.
+// ============================================
+
+// Error prefix for executions skipped because the quote was outside tolerance
+export const SLIPPAGE_SKIPPED = "Skipped: slippage";
+
+// Basis points used for slippage math (1% = 100 bps)
+const BPS = 10_000n;
+
+// The spot price is measured with 1/100th of the swap amount
+const SPOT_REFERENCE_DIVISOR = 100n;
+
+interface QuoteParams {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  feeTier: number;
+}
+
+export interface SwapQuote {
+  amountOut: bigint;
+  amountOutMinimum: bigint;
+}
+
+// Result when a quote is within tolerance, or the reason it is not
+export type QuoteCheck =
+  | { withinTolerance: true; quote: SwapQuote }
+  | { withinTolerance: false; error: string };
+
+// ============================================
+// Quote an exact-input single-pool swap
+// ============================================
+
+export async function quoteExactInputSingle(client: ChainContext, params: QuoteParams): Promise<bigint> {
+  const result = await client.publicClient.simulateContract({
+    address: client.chain.uniswap.QUOTER_V2,
+    abi: QUOTER_V2_ABI,
+    functionName: "quoteExactInputSingle",
+    args: [
+      {
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        amountIn: params.amountIn,
+        fee: params.feeTier,
+        sqrtPriceLimitX96: 0n,
+      },
+    ],
+  });
+
+  return result.result[0];
+}
+
+// ============================================
+// Get Current Price from Uniswap Quoter (tokenOut per 1 tokenIn)
+// ============================================
+
+export async function getCurrentPrice(
+  tokenIn: Address,
+  tokenOut: Address,
+  feeTier: number,
+  client: ChainContext
+): Promise<{ price: number; amountOut: bigint }> {
+  const { publicClient } = client;
+
+  // Use 1 token as reference for price
+  const decimalsIn = await publicClient.readContract({
+    address: tokenIn,
+    abi: ERC20_ABI,
+    functionName: "decimals",
+  });
+
+  const oneToken = BigInt(10 ** decimalsIn);
+
+  try {
+    const amountOut = await quoteExactInputSingle(client, {
+      tokenIn,
+      tokenOut,
+      amountIn: oneToken,
+      feeTier,
+    });
+
+    const decimalsOut = await publicClient.readContract({
+      address: tokenOut,
+      abi: ERC20_ABI,
+      functionName: "decimals",
+    });
+
+    // Price = amountOut / amountIn (normalized by decimals)
+    const price = Number(formatUnits(amountOut, decimalsOut)) / Number(formatUnits(oneToken, decimalsIn));
+
+    return { price, amountOut };
+  } catch (error) {
+    console.error("Error getting price from quoter:", error);
+    throw error;
+  }
+}
+
+function percentToBps(percent: number): bigint {
+  return BigInt(Math.round(percent * 100));
+}
+
+// ============================================
+// DCA: the full swap must not fill more than maxSlippage below the spot price
+// ============================================
+
+export async function quoteWithMaxSlippage(
+  client: ChainContext,
+  params: QuoteParams,
+  maxSlippage: number
+): Promise<QuoteCheck> {
+  const slippageBps = percentToBps(maxSlippage);
+
+  const amountOut = await quoteExactInputSingle(client, params);
+
+  // Spot output for the same amount, from a small reference swap
+  const referenceAmountIn = params.amountIn / SPOT_REFERENCE_DIVISOR;
+  const spotAmountOut = referenceAmountIn > 0n
+    ? (await quoteExactInputSingle(client, { ...params, amountIn: referenceAmountIn })) * SPOT_REFERENCE_DIVISOR
+    : amountOut;
+
+  const toleratedAmountOut = (spotAmountOut * (BPS - slippageBps)) / BPS;
+
+  console.log(`   💱 Quote: ${amountOut} (spot: ${spotAmountOut}, max slippage: ${maxSlippage}%)`);
+
+  if (amountOut < toleratedAmountOut) {
+    return {
+      withinTolerance: false,
+      error: `${SLIPPAGE_SKIPPED} (quote ${amountOut} is below tolerated ${toleratedAmountOut})`,
+    };
+  }
+
+  return {
+    withinTolerance: true,
+    quote: {
+      amountOut,
+      amountOutMinimum: (amountOut * (BPS - slippageBps)) / BPS,
+    },
+  };
+}
+
+// ============================================
+// Limit orders: the full swap must fill at or above the target price
+// targetPrice is tokenOut per tokenIn, in whole-token units
+// ============================================
+
+export async function quoteAtTargetPrice(
+  client: ChainContext,
+  params: QuoteParams,
+  targetPrice: string
+): Promise<QuoteCheck> {
+  const { publicClient } = client;
+  const [decimalsIn, decimalsOut] = await Promise.all([
+    publicClient.readContract({ address: params.tokenIn, abi: ERC20_ABI, functionName: "decimals" }),
+    publicClient.readContract({ address: params.tokenOut, abi: ERC20_ABI, functionName: "decimals" }),
+  ]);
+
+  const amountOut = await quoteExactInputSingle(client, params);
+
+  // Minimum output at the target price: amountIn * targetPrice, converted to tokenOut units
+  const amountOutMinimum = (params.amountIn * parseUnits(targetPrice, decimalsOut)) / 10n ** BigInt(decimalsIn);
+
+  console.log(`   💱 Quote: ${amountOut} (minimum at target price: ${amountOutMinimum})`);
+
+  if (amountOut < amountOutMinimum) {
+    return {
+      withinTolerance: false,
+      error: `${SLIPPAGE_SKIPPED} (quote ${amountOut} is below target minimum ${amountOutMinimum})`,
+    };
+  }
+
+  return {
+    withinTolerance: true,
+    quote: { amountOut, amountOutMinimum },
+  };
+}
@@ -0,0 +1,90 @@
+import { createPublicClient, formatUnits, isAddressEqual, parseEventLogs, type Address, type TransactionReceipt } from "viem";
+import { ERC20_ABI, UNISWAP_V3_POOL_ABI } from "./config.js";
+
+// ============================================
+// Swap receipt decoding
+//
+// The realized output of a swap is read from the swap receipt rather than the
+// quote: the output-token Transfer to the recipient, or the pool's Swap event
+// if the token does not emit a matching Transfer.
+// ============================================
+
+type PublicClient = ReturnType<typeof createPublicClient>;
+
+interface SwapDetails {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  recipient: Address;
+}
+
+export interface SwapOutcome {
+  amountOut?: string;
+  effectivePrice?: string; // tokenOut per tokenIn, in whole-token units
+}
+
+// ============================================
+// Decode the amount of tokenOut received by the recipient
+// ============================================
+
+export function decodeSwapAmountOut(receipt: TransactionReceipt, tokenOut: Address, recipient: Address): bigint | null {
+  const transfers = parseEventLogs({ abi: ERC20_ABI, eventName: "Transfer", logs: receipt.logs }).filter(
+    (log) => isAddressEqual(log.address, tokenOut) && isAddressEqual(log.args.to, recipient)
+  );
+
+  if (transfers.length > 0) {
+    return transfers.reduce((total, log) => total + log.args.value, 0n);
+  }
+
+  // Fallback: the pool pays out the side with the negative delta
+  const swap = parseEventLogs({ abi: UNISWAP_V3_POOL_ABI, eventName: "Swap", logs: receipt.logs }).find((log) =>
+    isAddressEqual(log.args.recipient, recipient)
+  );
+
+  if (!swap) {
+    return null;
+  }
+
+  const { amount0, amount1 } = swap.args;
+  return amount0 < 0n ? -amount0 : -amount1;
+}
+
+// ============================================
+// Realized amountOut and effective price of a confirmed swap
+// ============================================
+
+export async function decodeSwapReceipt(
+  publicClient: PublicClient,
+  receipt: TransactionReceipt,
+  swap: SwapDetails
+): Promise<SwapOutcome> {
+  const amountOut = decodeSwapAmountOut(receipt, swap.tokenOut, swap.recipient);
+
+  if (amountOut === null) {
+    console.log(`   ⚠️ No output transfer found in swap receipt`);
+    return {};
+  }
+
+  const [decimalsIn, decimalsOut] = await Promise.all([
+    publicClient.readContract({ address: swap.tokenIn, abi: ERC20_ABI, functionName: "decimals" }),
+    publicClient.readContract({ address: swap.tokenOut, abi: ERC20_ABI, functionName: "decimals" }),
+  ]);
+
+  const effectivePrice =
+    Number(formatUnits(amountOut, decimalsOut)) / Number(formatUnits(swap.amountIn, decimalsIn));
+
+  console.log(`   💰 Received ${amountOut} (effective price: ${effectivePrice.toFixed(8)})`);
+
+  return {
+    amountOut: amountOut.toString(),
+    effectivePrice: effectivePrice.toFixed(8),
+  };
+}
+
+// ============================================
+// Total gas used by all transactions of one execution
+// ============================================
+
+export function totalGasUsed(...receipts: TransactionReceipt[]): string {
+  return receipts.reduce((total, receipt) => total + receipt.gasUsed, 0n).toString();
+}
@@ -0,0 +1,303 @@
+import "dotenv/config";
+import { encodeFunctionData, type Address } from "viem";
+import { ERC20_ABI, BACKEND_URL, backendHeaders } from "./config.js";
+import {
+  createExecutionContext,
+  getSessionAccount,
+  sendTransaction,
+  type ExecutionContext,
+} from "./core.js";
+import { getStrategy } from "./registry.js";
+import { claimAgent, releaseAgent, renewLease, assertLeaseHeld, LEASE_LOST, type AgentLease } from "./lease.js";
+import { postExecutionReport } from "./report.js";
+import { quoteWithMaxSlippage, quoteAtTargetPrice, type QuoteCheck } from "./quote.js";
+import { decodeSwapReceipt, totalGasUsed } from "./receipt.js";
+import { buildSwapCalls } from "./strategies/swap.js";
+
+// ============================================
+// Recovery sweeper
+//
+// When an execution fails after the delegated transfer, the backend records
+// the tokens left on the session key as the agent's in-flight balance. This
+// job settles each one: it retries the swap if the agent is still active and
+// the quote is within tolerance, and otherwise refunds the tokens to the user.
+// Every attempt is reported as its own execution log entry.
+// ============================================
+
+// Slippage used to retry stop-loss swaps, which have no configured tolerance (%)
+const DEFAULT_RECOVERY_SLIPPAGE = 1.0;
+
+interface InFlightBalance {
+  token: Address;
+  amount: string;
+  holder: Address;
+}
+
+interface StrandedAgent {
+  _id: string;
+  name: string;
+  agentType: string;
+  chainId: number;
+  inFlight: InFlightBalance;
+}
+
+interface SwapConfig {
+  tokenIn: Address;
+  tokenOut: Address;
+  feeTier: number;
+}
+
+// Claimed agent with the config needed to retry its swap
+interface RecoveryAgent extends AgentLease {
+  _id: string;
+  userAddress: string;
+  status: string;
+  inFlight: InFlightBalance;
+  config: {
+    dca?: SwapConfig & { maxSlippage: number };
+    limitOrder?: SwapConfig & { targetPrice: string };
+    stopLoss?: SwapConfig & { maxSlippage: number };
+  };
+}
+
+interface SweepResults {
+  swapped: number;
+  refunded: number;
+  failed: number;
+  skipped: number;
+}
+
+async function fetchStrandedAgents(): Promise<StrandedAgent[]> {
+  const response = await fetch(`${BACKEND_URL}/api/agents/stranded`, { headers: backendHeaders() });
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || "Failed to fetch stranded agents");
+  }
+
+  return data.agents;
+}
+
+// ============================================
+// Quote the retry swap with the agent's own tolerance
+// Returns null if the agent should not be retried
+// ============================================
+
+async function quoteRecoverySwap(
+  ctx: ExecutionContext,
+  agent: RecoveryAgent,
+  amountIn: bigint
+): Promise<{ tokenOut: Address; feeTier: number; check: QuoteCheck } | null> {
+  if (agent.status !== "active") {
+    return null;
+  }
+
+  const swapConfig = agent.config.dca || agent.config.limitOrder || agent.config.stopLoss;
+  if (!swapConfig || swapConfig.tokenIn.toLowerCase() !== agent.inFlight.token.toLowerCase()) {
+    return null;
+  }
+
+  const params = { tokenIn: swapConfig.tokenIn, tokenOut: swapConfig.tokenOut, amountIn, feeTier: swapConfig.feeTier };
+
+  const check = agent.config.limitOrder
+    ? await quoteAtTargetPrice(ctx, params, agent.config.limitOrder.targetPrice)
+    : await quoteWithMaxSlippage(ctx, params, agent.config.dca?.maxSlippage ?? agent.config.stopLoss?.maxSlippage ?? DEFAULT_RECOVERY_SLIPPAGE);
+
+  return { tokenOut: swapConfig.tokenOut, feeTier: swapConfig.feeTier, check };
+}
+
+// ============================================
+// Recover a single agent's in-flight balance
+// Returns true once the tokens have left the session key
+// ============================================
+
+async function recoverAgent(agentId: string, ctx: ExecutionContext, results: SweepResults): Promise<boolean> {
+  const agent: RecoveryAgent | null = await claimAgent(agentId, { dueOnly: false, recovery: true });
+
+  if (!agent) {
+    results.skipped++;
+    console.log(`   🔒 Skipped: already being handled by another worker`);
+    return false;
+  }
+
+  try {
+    assertLeaseHeld(agent._id, agent);
+
+    const tokenIn = agent.inFlight.token as Address;
+    const amount = BigInt(agent.inFlight.amount);
+    const userAddress = agent.userAddress as Address;
+
+    // ============================================
+    // Option 1: Retry the swap from the session key
+    // ============================================
+    const retry = await quoteRecoverySwap(ctx, agent, amount);
+
+    if (retry?.check.withinTolerance) {
+      console.log("   🔄 Retrying swap from session key...");
+
+      if (!(await renewLease(agent._id))) throw new Error(LEASE_LOST);
+
+      const [approveStep, swapStep] = buildSwapCalls(ctx, {
+        tokenIn,
+        tokenOut: retry.tokenOut,
+        feeTier: retry.feeTier,
+        amountIn: amount,
+        amountOutMinimum: retry.check.quote.amountOutMinimum,
+        recipient: userAddress,
+      });
+
+      const approve = await sendTransaction(ctx, approveStep);
+      const swap = await sendTransaction(ctx, swapStep);
+
+      if (swap.receipt.status === "success") {
+        const { amountOut, effectivePrice } = await decodeSwapReceipt(ctx.publicClient, swap.receipt, {
+          tokenIn,
+          tokenOut: retry.tokenOut,
+          amountIn: amount,
+          recipient: userAddress,
+        });
+
+        await postExecutionReport(agent._id, {
+          executionId: swap.txHash,
+          success: true,
+          recovery: "swap",
+          txHash: swap.txHash,
+          amountIn: amount.toString(),
+          amountOut,
+          effectivePrice,
+          gasUsed: totalGasUsed(approve.receipt, swap.receipt),
+        });
+
+        results.swapped++;
+        console.log(`   ✅ Recovered by swap! TX: ${swap.txHash}`);
+        return true;
+      }
+
+      // Record the failed retry, then fall through to the refund
+      await postExecutionReport(agent._id, {
+        executionId: swap.txHash,
+        success: false,
+        recovery: "swap",
+        txHash: swap.txHash,
+        error: "Recovery swap reverted",
+      });
+      console.log(`   ❌ Recovery swap reverted, refunding instead`);
+    } else if (retry && !retry.check.withinTolerance) {
+      console.log(`   ⏭️ Not retrying swap: ${retry.check.error}`);
+    }
+
+    // ============================================
+    // Option 2: Refund the tokens to the user
+    // ============================================
+    console.log(`   💸 Refunding ${amount} to ${userAddress}...`);
+
+    if (!(await renewLease(agent._id))) throw new Error(LEASE_LOST);
+
+    const refund = await sendTransaction(ctx, {
+      to: tokenIn,
+      data: encodeFunctionData({
+        abi: ERC20_ABI,
+        functionName: "transfer",
+        args: [userAddress, amount],
+      }),
+      gas: 100000n,
+    });
+    const refunded = refund.receipt.status === "success";
+
+    await postExecutionReport(agent._id, {
+      executionId: refund.txHash,
+      success: refunded,
+      recovery: "refund",
+      txHash: refund.txHash,
+      amountIn: amount.toString(),
+      gasUsed: totalGasUsed(refund.receipt),
+      error: refunded ? undefined : "Refund transfer reverted",
+    });
+
+    if (refunded) {
+      results.refunded++;
+      console.log(`   ✅ Refunded! TX: ${refund.txHash}`);
+    } else {
+      results.failed++;
+      console.log(`   ❌ Refund reverted: ${refund.txHash}`);
+    }
+    return refunded;
+  } catch (error) {
+    results.failed++;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`   ❌ Recovery error: ${errorMessage}`);
+    return false;
+  } finally {
+    await releaseAgent(agentId);
+  }
+}
+
+// ============================================
+// Sweep all stranded balances
+// ============================================
+
+export async function sweepStrandedBalances(): Promise<SweepResults> {
+  const results: SweepResults = { swapped: 0, refunded: 0, failed: 0, skipped: 0 };
+
+  const strandedAgents = await fetchStrandedAgents();
+
+  if (strandedAgents.length === 0) {
+    return results;
+  }
+
+  console.log(`\n🧹 Found ${strandedAgents.length} agents with stranded tokens`);
+
+  // Session keys are shared per agent type - total what each holder owes per token
+  const owed = new Map<string, bigint>();
+  for (const agent of strandedAgents) {
+    const key = `${agent.inFlight.holder}:${agent.inFlight.token}`.toLowerCase();
+    owed.set(key, (owed.get(key) || 0n) + BigInt(agent.inFlight.amount));
+  }
+
+  for (const stranded of strandedAgents) {
+    const { holder, token, amount } = stranded.inFlight;
+    console.log(`\n📦 Agent: ${stranded._id} (${stranded.agentType})`);
+    console.log(`   Stranded: ${amount} of ${token} on ${holder}`);
+
+    try {
+      // The agent's strategy knows its session key, the agent its chain
+      const strategy = getStrategy(stranded.agentType);
+      const account = getSessionAccount(strategy.privateKeyEnv);
+
+      if (account.address.toLowerCase() !== holder.toLowerCase()) {
+        results.skipped++;
+        console.log(`   ⚠️ Skipped: configured session key ${account.address} is not the holder`);
+        continue;
+      }
+
+      const ctx = createExecutionContext(stranded.chainId, account);
+
+      // Never move more than the holder can cover for every agent it owes
+      const balance = await ctx.publicClient.readContract({
+        address: token,
+        abi: ERC20_ABI,
+        functionName: "balanceOf",
+        args: [account.address],
+      });
+      const owedKey = `${holder}:${token}`.toLowerCase();
+      const totalOwed = owed.get(owedKey) || 0n;
+
+      if (balance < totalOwed) {
+        results.skipped++;
+        console.log(`   ⚠️ Skipped: holder balance ${balance} does not cover in-flight total ${totalOwed}`);
+        continue;
+      }
+
+      if (await recoverAgent(stranded._id, ctx, results)) {
+        owed.set(owedKey, totalOwed - BigInt(amount));
+      }
+    } catch (error) {
+      results.failed++;
+      console.error(`   ❌ Recovery error: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.log(`\n🧹 Recovery: 🔄 ${results.swapped} swapped | 💸 ${results.refunded} refunded | ❌ ${results.failed} failed | ⏳ ${results.skipped} skipped`);
+
+  return results;
+}
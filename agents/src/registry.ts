@@ -0,0 +1,128 @@
+import { randomUUID } from "crypto";
+import { BACKEND_URL, backendHeaders } from "./config.js";
+import { createChainContext } from "./chains.js";
+import {
+  reportExecution,
+  runStrategy,
+  type AgentStrategy,
+  type BaseAgent,
+  type ExecutionResult,
+} from "./core.js";
+import { claimAgent, releaseAgent, LEASE_NOT_ACQUIRED } from "./lease.js";
+import { dcaStrategy } from "./strategies/dca.js";
+import { limitOrderStrategy } from "./strategies/limitOrder.js";
+import { stopLossStrategy } from "./strategies/stopLoss.js";
+import { savingsStrategy } from "./strategies/savings.js";
+import { recurringPaymentStrategy } from "./strategies/recurringPayment.js";
+
+// ============================================
+// Strategy registry
+//
+// Each agent type registers one strategy. server.ts and trigger.ts dispatch
+// through here, so a new agent type only needs a strategy and a
+// registerStrategy call.
+// ============================================
+
+const strategies = new Map<string, AgentStrategy>();
+
+export function registerStrategy<A extends BaseAgent>(strategy: AgentStrategy<A>): void {
+  strategies.set(strategy.agentType, strategy as unknown as AgentStrategy);
+}
+
+export function getStrategy(agentType: string): AgentStrategy {
+  const strategy = strategies.get(agentType);
+  if (!strategy) {
+    throw new Error(`Unknown agent type: ${agentType}`);
+  }
+  return strategy;
+}
+
+export function getStrategies(): AgentStrategy[] {
+  return [...strategies.values()];
+}
+
+registerStrategy(dcaStrategy);
+registerStrategy(limitOrderStrategy);
+registerStrategy(stopLossStrategy);
+registerStrategy(savingsStrategy);
+registerStrategy(recurringPaymentStrategy);
+
+// ============================================
+// Run outcome
+// skipped = not executed this time (lease held or taken elsewhere, trigger not met,
+// quote outside tolerance, simulated revert that may clear up), checked again on the next run
+// ============================================
+
+export type AgentRunStatus = "success" | "failed" | "skipped";
+
+export interface AgentRun {
+  status: AgentRunStatus;
+  result: ExecutionResult;
+}
+
+// ============================================
+// Mark a one-time order as expired
+// ============================================
+
+async function markOrderExpired(agentId: string): Promise<void> {
+  try {
+    await fetch(`${BACKEND_URL}/api/agents/${agentId}`, {
+      method: "PATCH",
+      headers: backendHeaders(),
+      body: JSON.stringify({ status: "cancelled" }),
+    });
+    console.log(`   ⏰ Order marked as expired`);
+  } catch (error) {
+    console.error(`Failed to mark order as expired: ${error}`);
+  }
+}
+
+// ============================================
+// Claim, check, execute and report a single agent
+// ============================================
+
+export async function runAgent(agentId: string, agentType: string, options: { dueOnly: boolean }): Promise<AgentRun> {
+  const strategy = getStrategy(agentType);
+
+  // Claim the execution lease (returns full agent details with permission context)
+  const agent = await claimAgent(agentId, { dueOnly: options.dueOnly });
+
+  if (!agent) {
+    return { status: "skipped", result: { success: false, error: LEASE_NOT_ACQUIRED } };
+  }
+
+  // Idempotency key for this run's report, reused if the report is retried
+  const executionId = randomUUID();
+
+  try {
+    if (strategy.check) {
+      const check = await strategy.check(agent, createChainContext(agent.chainId));
+
+      if (check.expired) {
+        await markOrderExpired(agent._id);
+        return { status: "skipped", result: { success: false, error: check.reason } };
+      }
+
+      if (!check.shouldExecute) {
+        return { status: "skipped", result: { success: false, error: check.reason } };
+      }
+    }
+
+    const result = await runStrategy(strategy, agent);
+
+    // Lost the lease before sending anything - the worker holding it now runs this execution
+    if (result.errorCode === "lease-lost" && !result.txHash) {
+      return { status: "skipped", result };
+    }
+
+    await reportExecution(agent._id, executionId, result);
+
+    return {
+      status: result.success ? "success" : result.skipped && !result.terminal ? "skipped" : "failed",
+      result,
+    };
+  } finally {
+    // Release after reporting so the rescheduled nextExecution is visible to other workers
+    await releaseAgent(agentId);
+  }
+}
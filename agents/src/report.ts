@@ -0,0 +1,69 @@
+import { BACKEND_URL, backendHeaders } from "./config.js";
+
+// ============================================
+// Execution reports
+//
+// Every report carries an idempotency key (executionId), created once per run
+// by the caller. The backend ignores a replayed report with the same key, so a
+// report can be retried safely after a network error or a 5xx without
+// double-counting the execution.
+// ============================================
+
+const REPORT_ATTEMPTS = 3;
+const REPORT_RETRY_DELAY_MS = 2_000;
+
+// Tokens left on the session key when an execution fails after the delegated transfer
+export interface StrandedBalance {
+  token: string;
+  amount: string;
+  holder: string;
+}
+
+export interface ExecutionReport {
+  executionId: string; // Same for every attempt at reporting one run
+  success: boolean;
+  txHash?: string;
+  amountIn?: string;
+  amountOut?: string;
+  effectivePrice?: string; // Realized tokenOut per tokenIn for swaps
+  gasUsed?: string; // Total gas used by the execution's transactions
+  error?: string;
+  errorCode?: string; // Typed reason for failures (see revert.ts ExecutionErrorCode)
+  skipped?: "slippage" | "simulation"; // Not executed: quote outside tolerance, or the redemption would revert
+  terminal?: boolean; // The simulated revert can never clear up (e.g. delegation disabled or expired)
+  stranded?: StrandedBalance; // Tokens awaiting recovery after a failed swap
+  recovery?: "swap" | "refund"; // Set when this report is a recovery action
+}
+
+export async function postExecutionReport(agentId: string, report: ExecutionReport): Promise<void> {
+  const body = JSON.stringify(report);
+
+  for (let attempt = 1; attempt <= REPORT_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(`${BACKEND_URL}/api/agents/${agentId}/log`, {
+        method: "POST",
+        headers: backendHeaders(),
+        body,
+      });
+
+      if (response.ok) {
+        console.log(`   📊 Reported to backend`);
+        return;
+      }
+
+      // 4xx (including 409 conflicting report) will not succeed on retry
+      if (response.status < 500) {
+        console.error(`Failed to report execution: ${response.status} ${response.statusText}`);
+        return;
+      }
+
+      console.error(`Failed to report execution (attempt ${attempt}/${REPORT_ATTEMPTS}): ${response.statusText}`);
+    } catch (error) {
+      console.error(`Failed to report execution (attempt ${attempt}/${REPORT_ATTEMPTS}): ${error}`);
+    }
+
+    if (attempt < REPORT_ATTEMPTS) {
+      await new Promise((resolve) => setTimeout(resolve, REPORT_RETRY_DELAY_MS * attempt));
+    }
+  }
+}
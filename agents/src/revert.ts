@@ -0,0 +1,134 @@
+import { BaseError, ContractFunctionRevertedError } from "viem";
+
+// ============================================
+// Revert decoding
+//
+// Redemptions revert in the DelegationManager (custom errors), in a caveat
+// enforcer (require strings) or in the executed call itself (token errors).
+// Each known reason maps to an error code and is classified:
+// - retryable: may succeed later (period allowance used up, period not started)
+// - terminal:  will never succeed with this delegation (disabled, expired, invalid)
+// ============================================
+
+// Error codes stored with execution logs - the dashboard explains each one
+export type ExecutionErrorCode =
+  | "allowance-exhausted"
+  | "period-not-started"
+  | "delegation-not-yet-valid"
+  | "delegation-expired"
+  | "delegation-disabled"
+  | "delegation-manager-paused"
+  | "invalid-delegate"
+  | "invalid-delegation-chain"
+  | "invalid-signature"
+  | "invalid-permission-terms"
+  | "insufficient-balance"
+  | "insufficient-allowance"
+  | "transaction-reverted"
+  | "lease-lost"
+  | "unknown";
+
+// DelegationManager errors (envio/abis/delegation-manager.json) plus token errors from executed calls
+export const REDEMPTION_ERRORS_ABI = [
+  { type: "error", name: "AlreadyDisabled", inputs: [] },
+  { type: "error", name: "AlreadyEnabled", inputs: [] },
+  { type: "error", name: "BatchDataLengthMismatch", inputs: [] },
+  { type: "error", name: "CannotUseADisabledDelegation", inputs: [] },
+  { type: "error", name: "ECDSAInvalidSignature", inputs: [] },
+  { type: "error", name: "ECDSAInvalidSignatureLength", inputs: [{ name: "length", type: "uint256" }] },
+  { type: "error", name: "ECDSAInvalidSignatureS", inputs: [{ name: "s", type: "bytes32" }] },
+  { type: "error", name: "EmptySignature", inputs: [] },
+  { type: "error", name: "EnforcedPause", inputs: [] },
+  { type: "error", name: "ExpectedPause", inputs: [] },
+  { type: "error", name: "InvalidAuthority", inputs: [] },
+  { type: "error", name: "InvalidDelegate", inputs: [] },
+  { type: "error", name: "InvalidDelegator", inputs: [] },
+  { type: "error", name: "InvalidEOASignature", inputs: [] },
+  { type: "error", name: "InvalidERC1271Signature", inputs: [] },
+  { type: "error", name: "InvalidShortString", inputs: [] },
+  { type: "error", name: "OwnableInvalidOwner", inputs: [{ name: "owner", type: "address" }] },
+  { type: "error", name: "OwnableUnauthorizedAccount", inputs: [{ name: "account", type: "address" }] },
+  { type: "error", name: "StringTooLong", inputs: [{ name: "str", type: "string" }] },
+  // OpenZeppelin ERC20 errors bubbled up from the executed call
+  {
+    type: "error",
+    name: "ERC20InsufficientBalance",
+    inputs: [
+      { name: "sender", type: "address" },
+      { name: "balance", type: "uint256" },
+      { name: "needed", type: "uint256" },
+    ],
+  },
+  {
+    type: "error",
+    name: "ERC20InsufficientAllowance",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "allowance", type: "uint256" },
+      { name: "needed", type: "uint256" },
+    ],
+  },
+] as const;
+
+export interface DecodedRevert {
+  code: ExecutionErrorCode;
+  reason: string;
+  retryable: boolean;
+}
+
+// Known reasons: custom error names and enforcer require strings
+const KNOWN_REVERTS: Record<string, DecodedRevert> = {
+  // SPENDING_LIMIT_ENFORCER (ERC20PeriodTransferEnforcer)
+  "ERC20PeriodTransferEnforcer:transfer-amount-exceeded": { code: "allowance-exhausted", reason: "Spending allowance for this period is used up", retryable: true },
+  "ERC20PeriodTransferEnforcer:transfer-not-started": { code: "period-not-started", reason: "Spending period has not started yet", retryable: true },
+  // TIMESTAMP_ENFORCER
+  "TimestampEnforcer:early-delegation": { code: "delegation-not-yet-valid", reason: "Delegation is not valid yet", retryable: true },
+  "TimestampEnforcer:expired-delegation": { code: "delegation-expired", reason: "Delegation has expired", retryable: false },
+  // DelegationManager
+  CannotUseADisabledDelegation: { code: "delegation-disabled", reason: "Delegation was disabled by the user", retryable: false },
+  EnforcedPause: { code: "delegation-manager-paused", reason: "DelegationManager is paused", retryable: true },
+  InvalidDelegate: { code: "invalid-delegate", reason: "Session key is not the delegate of this permission", retryable: false },
+  InvalidDelegator: { code: "invalid-delegation-chain", reason: "Invalid delegator in the delegation chain", retryable: false },
+  InvalidAuthority: { code: "invalid-delegation-chain", reason: "Invalid authority in the delegation chain", retryable: false },
+  BatchDataLengthMismatch: { code: "invalid-delegation-chain", reason: "Redemption batch is malformed", retryable: false },
+  InvalidEOASignature: { code: "invalid-signature", reason: "Invalid delegation signature", retryable: false },
+  InvalidERC1271Signature: { code: "invalid-signature", reason: "Invalid delegation signature", retryable: false },
+  EmptySignature: { code: "invalid-signature", reason: "Delegation is not signed", retryable: false },
+  // Executed call
+  ERC20InsufficientBalance: { code: "insufficient-balance", reason: "Insufficient token balance", retryable: true },
+  ERC20InsufficientAllowance: { code: "insufficient-allowance", reason: "Insufficient token allowance", retryable: true },
+};
+
+/**
+ * Decode an error into a revert reason, or null if it is not a revert
+ * (e.g. an RPC failure, which should not be blamed on the delegation)
+ */
+export function decodeRevert(error: unknown): DecodedRevert | null {
+  if (!(error instanceof BaseError)) return null;
+
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (!(reverted instanceof ContractFunctionRevertedError)) return null;
+
+  // Error(string) from enforcers, otherwise the custom error name
+  const key = reverted.reason ?? reverted.data?.errorName;
+
+  if (key && KNOWN_REVERTS[key]) {
+    return KNOWN_REVERTS[key];
+  }
+
+  // Remaining enforcer term checks (invalid-terms-length, invalid-contract, invalid-method, ...)
+  if (key?.startsWith("ERC20PeriodTransferEnforcer:invalid-")) {
+    return { code: "invalid-permission-terms", reason: `Permission does not allow this execution (${key})`, retryable: false };
+  }
+
+  if (key?.startsWith("ECDSA")) {
+    return { code: "invalid-signature", reason: `Invalid delegation signature (${key})`, retryable: false };
+  }
+
+  if (key && /exceeds balance/i.test(key)) {
+    return KNOWN_REVERTS.ERC20InsufficientBalance;
+  }
+
+  // Unknown revert - assume it may clear up rather than pausing the agent (the backend still counts it as a failure)
+  return { code: "unknown", reason: `Redemption reverted: ${key ?? reverted.signature ?? "unknown reason"}`, retryable: true };
+}
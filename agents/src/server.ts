@@ -1,22 +1,10 @@
 import "dotenv/config";
 import express from "express";
 import cors from "cors";
-import { BACKEND_URL } from "./config.js";
-import { executeDCASwap, reportExecution } from "./executor.js";
-import {
-  checkPriceTarget,
-  executeLimitOrder,
-  reportLimitOrderExecution,
-  markOrderExpired,
-} from "./limitOrderExecutor.js";
-import {
-  executeSavingsSupply,
-  reportSavingsExecution,
-} from "./savingsExecutor.js";
-import {
-  executeRecurringPayment,
-  reportRecurringPaymentExecution,
-} from "./recurringPaymentExecutor.js";
+import { createHash, timingSafeEqual } from "crypto";
+import { AGENT_SERVICE_TOKEN, BACKEND_URL, backendHeaders } from "./config.js";
+import { runAgent, type AgentRun } from "./registry.js";
+import { sweepStrandedBalances } from "./recovery.js";
 
 const app = express();
 const PORT = process.env.AGENT_SERVICE_PORT || 3002;
@@ -25,66 +13,40 @@ app.use(cors());
 app.use(express.json());
 
 // ============================================
-// Fetch full agent details from backend
+// Service credentials - only the backend (or an operator) may trigger executions
 // ============================================
 
-async function fetchAgent(agentId: string) {
-  const response = await fetch(`${BACKEND_URL}/api/agents/${agentId}`);
-  const data = await response.json();
+function isServiceToken(token: string): boolean {
+  if (!AGENT_SERVICE_TOKEN) return false;
 
-  if (!data.success) {
-    throw new Error(`Failed to fetch agent ${agentId}`);
+  return timingSafeEqual(
+    createHash("sha256").update(token).digest(),
+    createHash("sha256").update(AGENT_SERVICE_TOKEN).digest()
+  );
+}
+
+app.use((req, res, next) => {
+  if (req.path === "/health") {
+    next();
+    return;
   }
 
-  return data.agent;
-}
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ") || !isServiceToken(header.slice("Bearer ".length).trim())) {
+    res.status(401).json({ success: false, error: "Service credentials required" });
+    return;
+  }
+
+  next();
+});
 
 // ============================================
 // Execute a single agent by ID
 // ============================================
 
-async function executeAgent(agentId: string, agentType: string) {
+async function executeAgent(agentId: string, agentType: string, dueOnly = false): Promise<AgentRun> {
   console.log(`\n🚀 Manual execution triggered for agent ${agentId} (${agentType})`);
-
-  // Fetch full agent details
-  const agent = await fetchAgent(agentId);
-
-  if (agentType === "dca") {
-    const result = await executeDCASwap(agent);
-    await reportExecution(agent._id, result);
-    return result;
-  } else if (agentType === "limit-order") {
-    // For limit orders, check price first
-    const priceCheck = await checkPriceTarget(agent);
-
-    if (priceCheck.reason === "Order expired") {
-      await markOrderExpired(agent._id);
-      return { success: false, error: "Order expired" };
-    }
-
-    if (!priceCheck.shouldExecute) {
-      return {
-        success: false,
-        error: `Price target not met (current: ${priceCheck.currentPrice}, target: ${priceCheck.targetPrice})`,
-        priceCheck,
-      };
-    }
-
-    const result = await executeLimitOrder(agent);
-    await reportLimitOrderExecution(agent._id, result);
-
-    return result;
-  } else if (agentType === "savings") {
-    const result = await executeSavingsSupply(agent);
-    await reportSavingsExecution(agent._id, result);
-    return result;
-  } else if (agentType === "recurring-payment") {
-    const result = await executeRecurringPayment(agent);
-    await reportRecurringPaymentExecution(agent._id, result);
-    return result;
-  }
-
-  throw new Error(`Unknown agent type: ${agentType}`);
+  return runAgent(agentId, agentType, { dueOnly });
 }
 
 // ============================================
@@ -101,7 +63,7 @@ app.get("/health", (_req, res) => {
 
 app.post("/execute", async (req, res) => {
   try {
-    const { agentId, agentType } = req.body;
+    const { agentId, agentType, dueOnly } = req.body;
 
     if (!agentId || !agentType) {
       res.status(400).json({
@@ -111,14 +73,17 @@ app.post("/execute", async (req, res) => {
       return;
     }
 
-    const result = await executeAgent(agentId, agentType);
+    const { status, result } = await executeAgent(agentId, agentType, !!dueOnly);
 
     res.json({
       success: result.success,
+      status,
       txHash: result.txHash,
       error: result.error,
+      errorCode: result.errorCode,
       amountIn: result.amountIn,
       amountOut: result.amountOut,
+      effectivePrice: result.effectivePrice,
     });
   } catch (error) {
     console.error("Execution error:", error);
@@ -129,6 +94,23 @@ app.post("/execute", async (req, res) => {
   }
 });
 
+// ============================================
+// Recover endpoint - retry or refund tokens stranded on session keys
+// ============================================
+
+app.post("/recover", async (_req, res) => {
+  try {
+    const results = await sweepStrandedBalances();
+    res.json({ success: true, results });
+  } catch (error) {
+    console.error("Recovery error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Recovery failed",
+    });
+  }
+});
+
 // ============================================
 // Trigger endpoint - check and execute ALL due agents
 // ============================================
@@ -139,8 +121,15 @@ app.get("/trigger", async (_req, res) => {
   console.log("=".repeat(60));
 
   try {
+    // Settle tokens stranded by earlier failed executions first
+    try {
+      await sweepStrandedBalances();
+    } catch (error) {
+      console.error(`⚠️ Recovery sweep failed: ${error}`);
+    }
+
     // Fetch all due agents from backend
-    const dueResponse = await fetch(`${BACKEND_URL}/api/agents/due`);
+    const dueResponse = await fetch(`${BACKEND_URL}/api/agents/due`, { headers: backendHeaders() });
     const dueData = await dueResponse.json();
 
     if (!dueData.success) {
@@ -168,24 +157,18 @@ app.get("/trigger", async (_req, res) => {
       console.log(`\n📦 Processing: ${dueAgent.name} (${dueAgent.agentType})`);
 
       try {
-        const result = await executeAgent(dueAgent._id, dueAgent.agentType);
+        const { status, result } = await executeAgent(dueAgent._id, dueAgent.agentType, true);
+
+        results[status]++;
+        results.details.push({ agentId: dueAgent._id, name: dueAgent.name, type: dueAgent.agentType, status, txHash: result.txHash, error: result.error });
 
-        if (result.success) {
-          results.success++;
-          const txHash = "txHash" in result ? result.txHash : undefined;
-          results.details.push({ agentId: dueAgent._id, name: dueAgent.name, type: dueAgent.agentType, status: "success", txHash });
-          console.log(`   ✅ Success! TX: ${txHash}`);
+        if (status === "success") {
+          console.log(`   ✅ Success! TX: ${result.txHash}`);
+        } else if (status === "skipped") {
+          // e.g. price target not met, quote outside slippage, leased by another worker
+          console.log(`   ⏳ Skipped: ${result.error}`);
         } else {
-          // Check if it was skipped (e.g., price target not met)
-          if (result.error?.includes("Price target not met")) {
-            results.skipped++;
-            results.details.push({ agentId: dueAgent._id, name: dueAgent.name, type: dueAgent.agentType, status: "skipped", error: result.error });
-            console.log(`   ⏳ Skipped: ${result.error}`);
-          } else {
-            results.failed++;
-            results.details.push({ agentId: dueAgent._id, name: dueAgent.name, type: dueAgent.agentType, status: "failed", error: result.error });
-            console.log(`   ❌ Failed: ${result.error}`);
-          }
+          console.log(`   ❌ Failed: ${result.error}`);
         }
       } catch (error) {
         results.failed++;
@@ -221,4 +204,10 @@ app.listen(PORT, () => {
   console.log(`   Health check: http://localhost:${PORT}/health`);
   console.log(`   Execute: POST http://localhost:${PORT}/execute`);
   console.log(`   Trigger All: POST http://localhost:${PORT}/trigger`);
+  console.log(`   Recover: POST http://localhost:${PORT}/recover`);
+  console.log(`   Auth: Authorization: Bearer $AGENT_SERVICE_TOKEN (all but /health)`);
+
+  if (!AGENT_SERVICE_TOKEN) {
+    console.warn(`⚠️ AGENT_SERVICE_TOKEN not set - every request except /health will be rejected`);
+  }
 });
@@ -0,0 +1,54 @@
+import type { Address } from "viem";
+import type { AgentStrategy, BaseAgent } from "../core.js";
+import { quoteWithMaxSlippage } from "../quote.js";
+import { buildSwapPlan, interpretSwap } from "./swap.js";
+
+// ============================================
+// DCA: swap a fixed amount every interval
+// ============================================
+
+interface DCAAgent extends BaseAgent {
+  config: {
+    dca: {
+      tokenIn: Address;
+      tokenOut: Address;
+      amountPerExecution: string;
+      intervalSeconds: number;
+      maxSlippage: number;
+      feeTier: number;
+    };
+  };
+}
+
+export const dcaStrategy: AgentStrategy<DCAAgent> = {
+  agentType: "dca",
+  label: "DCA",
+  privateKeyEnv: ["DCA_PRIVATE_KEY"],
+
+  async plan(agent, ctx) {
+    const { tokenIn, tokenOut, amountPerExecution, feeTier, maxSlippage } = agent.config.dca;
+    const amountIn = BigInt(amountPerExecution);
+
+    console.log(`   Token: ${tokenIn} → ${tokenOut}`);
+    console.log(`   Amount: ${amountPerExecution}`);
+
+    // Quote first - nothing is transferred if the swap would fill outside maxSlippage
+    const quoteCheck = await quoteWithMaxSlippage(ctx, { tokenIn, tokenOut, amountIn, feeTier }, maxSlippage);
+    if (!quoteCheck.withinTolerance) {
+      return { skipped: "slippage", error: quoteCheck.error };
+    }
+
+    return buildSwapPlan(agent, ctx, {
+      tokenIn,
+      tokenOut,
+      feeTier,
+      amountIn,
+      amountOutMinimum: quoteCheck.quote.amountOutMinimum,
+    });
+  },
+
+  interpret(agent, receipt, plan, ctx) {
+    const { tokenIn, tokenOut } = agent.config.dca;
+    return interpretSwap(agent, receipt, plan, ctx, { tokenIn, tokenOut });
+  },
+};
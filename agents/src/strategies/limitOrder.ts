@@ -0,0 +1,100 @@
+import type { Address } from "viem";
+import type { AgentStrategy, BaseAgent } from "../core.js";
+import { getCurrentPrice, quoteAtTargetPrice } from "../quote.js";
+import { buildSwapPlan, interpretSwap } from "./swap.js";
+
+// ============================================
+// Limit order: swap once when the price reaches the target
+// ============================================
+
+interface LimitOrderAgent extends BaseAgent {
+  config: {
+    limitOrder: {
+      tokenIn: Address;
+      tokenOut: Address;
+      amountIn: string;
+      targetPrice: string;
+      direction: "buy" | "sell";
+      feeTier: number;
+      expiryTimestamp: number;
+    };
+  };
+}
+
+export const limitOrderStrategy: AgentStrategy<LimitOrderAgent> = {
+  agentType: "limit-order",
+  label: "Limit Order",
+  privateKeyEnv: ["LO_PRIVATE_KEY"],
+
+  // ============================================
+  // Check if price target is met
+  // ============================================
+  async check(agent, client) {
+    console.log(`\n📊 Checking price for limit order ${agent._id}`);
+
+    const { tokenIn, tokenOut, targetPrice, direction, feeTier, expiryTimestamp } = agent.config.limitOrder;
+
+    // Check if order has expired
+    if (Date.now() / 1000 > expiryTimestamp) {
+      return { shouldExecute: false, expired: true, reason: "Order expired" };
+    }
+
+    try {
+      const { price: currentPrice } = await getCurrentPrice(tokenIn, tokenOut, feeTier, client);
+
+      console.log(`   Current price: ${currentPrice.toFixed(8)} ${tokenOut}/${tokenIn}`);
+      console.log(`   Target price: ${targetPrice} ${tokenOut}/${tokenIn}`);
+      console.log(`   Direction: ${direction}`);
+
+      const target = parseFloat(targetPrice);
+
+      // For "buy" orders: execute when price drops to or below target
+      // For "sell" orders: execute when price rises to or above target
+      const shouldExecute = direction === "buy"
+        ? currentPrice >= target  // Buy when you get MORE tokenOut per tokenIn
+        : currentPrice >= target; // Sell when price is above target
+
+      if (shouldExecute) {
+        console.log(`   ✅ Price target met! Will execute.`);
+        return { shouldExecute, reason: "Price target reached" };
+      }
+
+      console.log(`   ⏳ Price target not met yet.`);
+      return {
+        shouldExecute,
+        reason: `Price target not met (current: ${currentPrice.toFixed(8)}, target: ${targetPrice})`,
+      };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.error(`   ❌ Error checking price: ${msg}`);
+      return { shouldExecute: false, reason: `Price check failed: ${msg}` };
+    }
+  },
+
+  async plan(agent, ctx) {
+    const { tokenIn, tokenOut, amountIn, feeTier, targetPrice } = agent.config.limitOrder;
+    const amount = BigInt(amountIn);
+
+    console.log(`   ${tokenIn} → ${tokenOut}`);
+    console.log(`   Amount: ${amountIn}`);
+
+    // Quote the full order - the 1-token price check does not include price impact
+    const quoteCheck = await quoteAtTargetPrice(ctx, { tokenIn, tokenOut, amountIn: amount, feeTier }, targetPrice);
+    if (!quoteCheck.withinTolerance) {
+      return { skipped: "slippage", error: quoteCheck.error };
+    }
+
+    return buildSwapPlan(agent, ctx, {
+      tokenIn,
+      tokenOut,
+      feeTier,
+      amountIn: amount,
+      amountOutMinimum: quoteCheck.quote.amountOutMinimum,
+    });
+  },
+
+  interpret(agent, receipt, plan, ctx) {
+    const { tokenIn, tokenOut } = agent.config.limitOrder;
+    return interpretSwap(agent, receipt, plan, ctx, { tokenIn, tokenOut });
+  },
+};
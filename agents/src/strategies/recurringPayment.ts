@@ -0,0 +1,48 @@
+import { encodeFunctionData, type Address } from "viem";
+import { ERC20_ABI } from "../config.js";
+import type { AgentStrategy, BaseAgent } from "../core.js";
+
+// ============================================
+// Recurring payment: pay a fixed amount to a recipient every interval
+// ============================================
+
+interface RecurringPaymentAgent extends BaseAgent {
+  config: {
+    recurringPayment: {
+      token: Address;
+      amount: string;
+      recipient: Address;
+      intervalSeconds: number;
+      totalPaid: string;
+    };
+  };
+}
+
+export const recurringPaymentStrategy: AgentStrategy<RecurringPaymentAgent> = {
+  agentType: "recurring-payment",
+  label: "Recurring Payment",
+  privateKeyEnv: ["RECURRING_PAYMENT_PRIVATE_KEY"],
+
+  async plan(agent) {
+    const { token, amount, recipient } = agent.config.recurringPayment;
+
+    console.log(`   Token: ${token}`);
+    console.log(`   Amount: ${amount}`);
+    console.log(`   Recipient: ${recipient}`);
+
+    // The delegation allows the agent to call transfer on behalf of the user,
+    // so the payment goes from the user straight to the recipient
+    const transferCalldata = encodeFunctionData({
+      abi: ERC20_ABI,
+      functionName: "transfer",
+      args: [recipient, BigInt(amount)],
+    });
+
+    return {
+      steps: [
+        { kind: "redeem", label: "Payment via delegation", execution: { target: token, value: 0n, callData: transferCalldata }, gas: 300000n },
+      ],
+      amountIn: amount,
+    };
+  },
+};
@@ -0,0 +1,69 @@
+import { encodeFunctionData, type Address } from "viem";
+import type { AgentStrategy, BaseAgent } from "../core.js";
+import { buildApproveAndCallPlan } from "./swap.js";
+
+// ============================================
+// Savings: supply a fixed amount to Aave V3 every interval
+// ============================================
+
+interface SavingsAgent extends BaseAgent {
+  config: {
+    savings: {
+      token: Address;
+      amountPerExecution: string;
+      intervalSeconds: number;
+      protocol: "aave-v3";
+      totalSupplied: string;
+    };
+  };
+}
+
+// Aave V3 Pool ABI (supply function)
+const AAVE_POOL_ABI = [
+  {
+    name: "supply",
+    type: "function",
+    inputs: [
+      { name: "asset", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "onBehalfOf", type: "address" },
+      { name: "referralCode", type: "uint16" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+] as const;
+
+export const savingsStrategy: AgentStrategy<SavingsAgent> = {
+  agentType: "savings",
+  label: "Savings Supply",
+  privateKeyEnv: ["SAVINGS_PRIVATE_KEY"],
+
+  async plan(agent, ctx) {
+    const { token, amountPerExecution } = agent.config.savings;
+    const amount = BigInt(amountPerExecution);
+    const pool = ctx.chain.aave.POOL;
+
+    console.log(`   Token: ${token}`);
+    console.log(`   Amount: ${amountPerExecution}`);
+
+    const supplyCalldata = encodeFunctionData({
+      abi: AAVE_POOL_ABI,
+      functionName: "supply",
+      args: [
+        token,                        // asset
+        amount,                       // amount
+        agent.userAddress as Address, // onBehalfOf (user receives aTokens)
+        0,                            // referralCode
+      ],
+    });
+
+    return buildApproveAndCallPlan(ctx, {
+      token,
+      amount,
+      spender: pool,
+      spenderName: "Aave Pool",
+      call: { label: "Supply to Aave V3", to: pool, data: supplyCalldata, gas: 500000n },
+    });
+  },
+};
@@ -0,0 +1,167 @@
+import type { Address } from "viem";
+import { ERC20_ABI, BACKEND_URL, backendHeaders } from "../config.js";
+import type { AgentStrategy, BaseAgent } from "../core.js";
+import { getCurrentPrice, quoteAtTargetPrice } from "../quote.js";
+import { buildSwapPlan, interpretSwap } from "./swap.js";
+
+// ============================================
+// Stop-loss: sell once when the price falls to the stop price
+// Stop-loss orders are executed by the limit order agent's session key
+// ============================================
+
+interface StopLossAgent extends BaseAgent {
+  config: {
+    stopLoss: {
+      tokenIn: Address;
+      tokenOut: Address;
+      triggerPrice: string;
+      amountIn?: string;
+      sellPercentage?: number;
+      trailingDistance?: number;
+      maxSlippage: number;
+      highestPrice?: string;
+      feeTier: number;
+      expiryTimestamp: number;
+    };
+  };
+}
+
+// ============================================
+// Effective stop price
+// Fixed stops use triggerPrice. Trailing stops follow the highest seen price
+// down by trailingDistance, but never below triggerPrice.
+// ============================================
+
+function getStopPrice(config: StopLossAgent["config"]["stopLoss"], highestPrice: number): number {
+  const triggerPrice = parseFloat(config.triggerPrice);
+
+  if (!config.trailingDistance || !highestPrice) {
+    return triggerPrice;
+  }
+
+  const trailingStop = highestPrice * (1 - config.trailingDistance / 100);
+  return Math.max(triggerPrice, trailingStop);
+}
+
+// ============================================
+// Record a new peak price for trailing stops
+// ============================================
+
+async function updatePeakPrice(agentId: string, price: number): Promise<void> {
+  try {
+    await fetch(`${BACKEND_URL}/api/agents/${agentId}/peak-price`, {
+      method: "POST",
+      headers: backendHeaders(),
+      body: JSON.stringify({ price: price.toFixed(8) }),
+    });
+    console.log(`   📈 New peak price recorded: ${price.toFixed(8)}`);
+  } catch (error) {
+    console.error(`Failed to update peak price: ${error}`);
+  }
+}
+
+export const stopLossStrategy: AgentStrategy<StopLossAgent> = {
+  agentType: "stop-loss",
+  label: "Stop-Loss",
+  privateKeyEnv: ["STOP_LOSS_PRIVATE_KEY", "LO_PRIVATE_KEY"],
+
+  // ============================================
+  // Check if the stop price has been hit
+  // ============================================
+  async check(agent, client) {
+    console.log(`\n📉 Checking price for stop-loss ${agent._id}`);
+
+    const config = agent.config.stopLoss;
+
+    // Check if order has expired
+    if (Date.now() / 1000 > config.expiryTimestamp) {
+      return { shouldExecute: false, expired: true, reason: "Order expired" };
+    }
+
+    try {
+      const { price: currentPrice } = await getCurrentPrice(config.tokenIn, config.tokenOut, config.feeTier, client);
+
+      let highestPrice = parseFloat(config.highestPrice || "0");
+      if (config.trailingDistance && currentPrice > highestPrice) {
+        highestPrice = currentPrice;
+        await updatePeakPrice(agent._id, currentPrice);
+      }
+
+      const stopPrice = getStopPrice(config, highestPrice);
+
+      console.log(`   Current price: ${currentPrice.toFixed(8)} ${config.tokenOut}/${config.tokenIn}`);
+      console.log(`   Stop price: ${stopPrice.toFixed(8)}${config.trailingDistance ? ` (trailing ${config.trailingDistance}% from ${highestPrice.toFixed(8)})` : ""}`);
+
+      // Sell when the price falls to or below the stop
+      if (currentPrice <= stopPrice) {
+        console.log(`   🚨 Stop price hit! Will execute.`);
+        return { shouldExecute: true, reason: "Stop price reached" };
+      }
+
+      console.log(`   ⏳ Stop price not reached.`);
+      return {
+        shouldExecute: false,
+        reason: `Stop price not reached (current: ${currentPrice.toFixed(8)}, stop: ${stopPrice.toFixed(8)})`,
+      };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.error(`   ❌ Error checking price: ${msg}`);
+      return { shouldExecute: false, reason: `Price check failed: ${msg}` };
+    }
+  },
+
+  async plan(agent, ctx) {
+    const config = agent.config.stopLoss;
+    const { tokenIn, tokenOut, amountIn, sellPercentage, feeTier } = config;
+
+    console.log(`   ${tokenIn} → ${tokenOut}`);
+
+    // Resolve the amount to sell: fixed amount, or a percentage of the current balance
+    let amount: bigint;
+    if (amountIn) {
+      amount = BigInt(amountIn);
+    } else {
+      const balance = await ctx.publicClient.readContract({
+        address: tokenIn,
+        abi: ERC20_ABI,
+        functionName: "balanceOf",
+        args: [agent.userAddress as Address],
+      });
+      amount = (balance * BigInt(sellPercentage || 100)) / 100n;
+    }
+
+    // Never try to pull more than the granted allowance
+    const spendingLimit = BigInt(agent.spendingLimit);
+    if (amount > spendingLimit) {
+      amount = spendingLimit;
+    }
+
+    if (amount === 0n) {
+      throw new Error("Nothing to sell (zero balance)");
+    }
+
+    console.log(`   Amount: ${amount}`);
+
+    // Sell at no less than maxSlippage below the stop price - a worse quote is skipped and re-checked next run
+    const stopPrice = getStopPrice(config, parseFloat(config.highestPrice || "0"));
+    const floorPrice = stopPrice * (1 - config.maxSlippage / 100);
+
+    const quoteCheck = await quoteAtTargetPrice(ctx, { tokenIn, tokenOut, amountIn: amount, feeTier }, floorPrice.toFixed(18));
+    if (!quoteCheck.withinTolerance) {
+      return { skipped: "slippage", error: quoteCheck.error };
+    }
+
+    return buildSwapPlan(agent, ctx, {
+      tokenIn,
+      tokenOut,
+      feeTier,
+      amountIn: amount,
+      amountOutMinimum: quoteCheck.quote.amountOutMinimum,
+    });
+  },
+
+  interpret(agent, receipt, plan, ctx) {
+    const { tokenIn, tokenOut } = agent.config.stopLoss;
+    return interpretSwap(agent, receipt, plan, ctx, { tokenIn, tokenOut });
+  },
+};
@@ -0,0 +1,117 @@
+import { encodeFunctionData, type Address, type TransactionReceipt } from "viem";
+import { ERC20_ABI, SWAP_ROUTER_ABI } from "../config.js";
+import type { ChainContext } from "../chains.js";
+import { decodeSwapReceipt } from "../receipt.js";
+import type { BaseAgent, CallStep, ExecutionContext, ExecutionPlan, Execution, ExecutionStep } from "../core.js";
+
+// ============================================
+// Uniswap swap plans shared by DCA, limit order and stop-loss
+//
+// Custody is still required: the erc20-token-periodic permission only allows
+// single-mode ERC20 transfers, so approve + swap can't run from the user's
+// account. The tokens are transferred to the session key, which approves and
+// swaps with the output sent to the user. If a later step fails, the tokens
+// are reported as stranded and the recovery sweep retries or refunds them.
+// ============================================
+
+export interface SwapParams {
+  tokenIn: Address;
+  tokenOut: Address;
+  feeTier: number;
+  amountIn: bigint;
+  amountOutMinimum: bigint;
+  recipient: Address;
+}
+
+export function encodeApprove(spender: Address, amount: bigint) {
+  return encodeFunctionData({
+    abi: ERC20_ABI,
+    functionName: "approve",
+    args: [spender, amount],
+  });
+}
+
+export function encodeSwap(params: SwapParams) {
+  return encodeFunctionData({
+    abi: SWAP_ROUTER_ABI,
+    functionName: "exactInputSingle",
+    args: [
+      {
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        fee: params.feeTier,
+        recipient: params.recipient, // Output goes straight to the user
+        amountIn: params.amountIn,
+        amountOutMinimum: params.amountOutMinimum,
+        sqrtPriceLimitX96: 0n,
+      },
+    ],
+  });
+}
+
+// Approve + swap as direct calls from the session key
+export function buildSwapCalls(client: ChainContext, params: SwapParams): [CallStep, CallStep] {
+  const router = client.chain.uniswap.SWAP_ROUTER;
+
+  return [
+    { kind: "call", label: "Approve Uniswap router", to: params.tokenIn, data: encodeApprove(router, params.amountIn), gas: 100000n },
+    { kind: "call", label: "Uniswap swap", to: router, data: encodeSwap(params), gas: 500000n },
+  ];
+}
+
+// ============================================
+// Transfer to the session key, approve a spender and call it with the spent tokens
+// ============================================
+
+export function buildApproveAndCallPlan(
+  ctx: ExecutionContext,
+  params: { token: Address; amount: bigint; spender: Address; spenderName: string; call: Omit<CallStep, "kind"> }
+): ExecutionPlan {
+  const { token, amount, spender, spenderName, call } = params;
+
+  const transfer: Execution = {
+    target: token,
+    value: 0n,
+    callData: encodeFunctionData({
+      abi: ERC20_ABI,
+      functionName: "transfer",
+      args: [ctx.sessionAccount.address, amount],
+    }),
+  };
+
+  const steps: ExecutionStep[] = [
+    { kind: "redeem", label: "Transfer via delegation", execution: transfer, gas: 500000n },
+    { kind: "call", label: `Approve ${spenderName}`, to: token, data: encodeApprove(spender, amount), gas: 100000n },
+    { kind: "call", ...call },
+  ];
+
+  return { steps, amountIn: amount.toString(), custody: { token, amount } };
+}
+
+export function buildSwapPlan(agent: BaseAgent, ctx: ExecutionContext, params: Omit<SwapParams, "recipient">): ExecutionPlan {
+  const swap: SwapParams = { ...params, recipient: agent.userAddress as Address };
+  const router = ctx.chain.uniswap.SWAP_ROUTER;
+
+  return buildApproveAndCallPlan(ctx, {
+    token: swap.tokenIn,
+    amount: swap.amountIn,
+    spender: router,
+    spenderName: "Uniswap router",
+    call: { label: "Uniswap swap", to: router, data: encodeSwap(swap), gas: 500000n },
+  });
+}
+
+// Realized output of the swap, read from the final receipt
+export function interpretSwap(
+  agent: BaseAgent,
+  receipt: TransactionReceipt,
+  plan: ExecutionPlan,
+  ctx: ExecutionContext,
+  tokens: { tokenIn: Address; tokenOut: Address }
+) {
+  return decodeSwapReceipt(ctx.publicClient, receipt, {
+    ...tokens,
+    amountIn: BigInt(plan.amountIn),
+    recipient: agent.userAddress as Address,
+  });
+}
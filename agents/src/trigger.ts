@@ -1,20 +1,7 @@
 import "dotenv/config";
-import { BACKEND_URL } from "./config.js";
-import { executeDCASwap, reportExecution } from "./executor.js";
-import {
-  checkPriceTarget,
-  executeLimitOrder,
-  reportLimitOrderExecution,
-  markOrderExpired,
-} from "./limitOrderExecutor.js";
-import {
-  executeSavingsSupply,
-  reportSavingsExecution,
-} from "./savingsExecutor.js";
-import {
-  executeRecurringPayment,
-  reportRecurringPaymentExecution,
-} from "./recurringPaymentExecutor.js";
+import { BACKEND_URL, backendHeaders } from "./config.js";
+import { runAgent } from "./registry.js";
+import { sweepStrandedBalances } from "./recovery.js";
 
 // ============================================
 // Fetch due agents from backend
@@ -22,7 +9,7 @@ import {
 
 async function fetchDueAgents() {
   try {
-    const response = await fetch(`${BACKEND_URL}/api/agents/due`);
+    const response = await fetch(`${BACKEND_URL}/api/agents/due`, { headers: backendHeaders() });
     const data = await response.json();
 
     if (!data.success) {
@@ -38,21 +25,6 @@ async function fetchDueAgents() {
   }
 }
 
-// ============================================
-// Fetch full agent details
-// ============================================
-
-async function fetchAgent(agentId: string) {
-  const response = await fetch(`${BACKEND_URL}/api/agents/${agentId}`);
-  const data = await response.json();
-
-  if (!data.success) {
-    throw new Error(`Failed to fetch agent ${agentId}`);
-  }
-
-  return data.agent;
-}
-
 // ============================================
 // Main trigger function
 // ============================================
@@ -63,6 +35,13 @@ async function trigger() {
   console.log("=".repeat(60));
 
   try {
+    // Settle tokens stranded by earlier failed executions first
+    try {
+      await sweepStrandedBalances();
+    } catch (error) {
+      console.error(`⚠️ Recovery sweep failed: ${error}`);
+    }
+
     // Fetch all due agents
     const dueAgents = await fetchDueAgents();
     console.log(`\n📋 Found ${dueAgents.length} agents due for execution`);
@@ -86,81 +65,16 @@ async function trigger() {
       console.log(`   Type: ${dueAgent.agentType}`);
 
       try {
-        // Fetch full agent details (with permission context)
-        const agent = await fetchAgent(dueAgent._id);
-
-        if (agent.agentType === "dca") {
-          // Execute the DCA swap
-          const result = await executeDCASwap(agent);
-
-          // Report result to backend
-          await reportExecution(agent._id, result);
-
-          if (result.success) {
-            results.success++;
-            console.log(`   ✅ Success! TX: ${result.txHash}`);
-          } else {
-            results.failed++;
-            console.log(`   ❌ Failed: ${result.error}`);
-          }
-        } else if (agent.agentType === "limit-order") {
-          // First check if price target is met
-          const priceCheck = await checkPriceTarget(agent);
-
-          if (priceCheck.reason === "Order expired") {
-            // Mark order as expired
-            await markOrderExpired(agent._id);
-            results.skipped++;
-            console.log(`   ⏰ Order expired`);
-          } else if (priceCheck.shouldExecute) {
-            // Execute the limit order
-            const result = await executeLimitOrder(agent);
-
-            // Report result to backend
-            await reportLimitOrderExecution(agent._id, result);
-
-            if (result.success) {
-              results.success++;
-              console.log(`   ✅ Limit Order Executed! TX: ${result.txHash}`);
-            } else {
-              results.failed++;
-              console.log(`   ❌ Failed: ${result.error}`);
-            }
-          } else {
-            // Price target not met, skip for now (will be checked again next cycle)
-            results.skipped++;
-            console.log(`   ⏳ Price target not met (current: ${priceCheck.currentPrice}, target: ${priceCheck.targetPrice})`);
-          }
-        } else if (agent.agentType === "savings") {
-          // Execute savings supply to Aave
-          const result = await executeSavingsSupply(agent);
-
-          // Report result to backend
-          await reportSavingsExecution(agent._id, result);
-
-          if (result.success) {
-            results.success++;
-            console.log(`   ✅ Savings Supply Success! TX: ${result.txHash}`);
-          } else {
-            results.failed++;
-            console.log(`   ❌ Failed: ${result.error}`);
-          }
-        } else if (agent.agentType === "recurring-payment") {
-          // Execute recurring payment
-          const result = await executeRecurringPayment(agent);
-
-          // Report result to backend
-          await reportRecurringPaymentExecution(agent._id, result);
-
-          if (result.success) {
-            results.success++;
-            console.log(`   ✅ Recurring Payment Success! TX: ${result.txHash}`);
-          } else {
-            results.failed++;
-            console.log(`   ❌ Failed: ${result.error}`);
-          }
+        const { status, result } = await runAgent(dueAgent._id, dueAgent.agentType, { dueOnly: true });
+        results[status]++;
+
+        if (status === "success") {
+          console.log(`   ✅ Success! TX: ${result.txHash}`);
+        } else if (status === "skipped") {
+          // Leased by another worker, trigger not met or quote outside tolerance - checked again next cycle
+          console.log(`   ⏳ Skipped: ${result.error}`);
         } else {
-          console.log(`   ⚠️ Unknown agent type: ${agent.agentType}`);
+          console.log(`   ❌ Failed: ${result.error}`);
         }
       } catch (error) {
         results.failed++;
@@ -1,31 +1,36 @@
-// Sepolia Testnet Configuration
+// ============================================
+// Chain registry
+//
+// Networks the indexer covers, keyed by chainId. Agents store the chainId
+// their permission was granted on. The backend only reads chains (e.g. to
+// verify wallet signatures) - contract and token addresses live in the agent
+// service's registry (agents/src/chains.ts), the only place that calls them.
+// ============================================
 
-export const CHAIN_ID = 11155111;
+export interface ChainConfig {
+  name: string;
+  rpcUrl: string;
+}
 
-// Uniswap V3 Addresses on Sepolia
-export const UNISWAP = {
-  SWAP_ROUTER: "0x3bFA4769FB09eefC5a80d6E87c3B9C650f7Ae48E" as const,
-  QUOTER_V2: "0xEd1f6473345F45b75F8179591dd5bA1888cf2FB3" as const,
-  FACTORY: "0x0227628f3F023bb0B980b67D528571c95c6DaC1c" as const,
+export const CHAINS: Record<number, ChainConfig> = {
+  // Sepolia
+  11155111: {
+    name: "Sepolia",
+    // RPC_URL is the original Sepolia-only setting
+    rpcUrl: process.env.SEPOLIA_RPC_URL || process.env.RPC_URL || "https://ethereum-sepolia-rpc.publicnode.com",
+  },
+  // Base Sepolia
+  84532: {
+    name: "Base Sepolia",
+    rpcUrl: process.env.BASE_SEPOLIA_RPC_URL || "https://sepolia.base.org",
+  },
 };
 
-// Token Addresses on Sepolia
-export const TOKENS = {
-  WETH: "0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14" as const,
-  USDC: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238" as const,
-  UNI: "0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984" as const,
-  DAI: "0xFF34B3d4Aee8ddCd6F9AFFFB6Fe49bD371b8a357" as const,
-  LINK: "0xf8Fb3713D459D7C1018BD0A49D19b4C44290EBE5" as const,
-} as const;
+export const SUPPORTED_CHAIN_IDS = Object.keys(CHAINS).map(Number);
 
-// Token decimals
-export const TOKEN_DECIMALS: Record<string, number> = {
-  [TOKENS.WETH]: 18,
-  [TOKENS.USDC]: 6,
-  [TOKENS.UNI]: 18,
-  [TOKENS.DAI]: 18,
-  [TOKENS.LINK]: 18,
-};
+export function isSupportedChain(chainId: number): boolean {
+  return chainId in CHAINS;
+}
 
 // ABIs
 export const ERC20_ABI = [
@@ -1,2 +1,3 @@
 export * from "./database.js";
-export * from "./constants.js";
+export * from "./chains.js";
+export * from "./sessionKeys.js";
@@ -0,0 +1,21 @@
+import type { AgentType } from "../models/Agent.js";
+
+// ============================================
+// Session keys
+//
+// The agent service's redeemer address for each agent type. Permissions are
+// only accepted when their leaf delegation is granted to one of these.
+// Stop-loss orders share the limit order key unless configured separately.
+// ============================================
+
+const LIMIT_ORDER_SESSION_KEY = process.env.LO_SESSION_KEY_ADDRESS || "0x0013bb0d8712dc4cacbc8cd32d4c0c851cdf18da";
+
+export const SESSION_KEYS: Record<AgentType, string> = {
+  dca: (process.env.DCA_SESSION_KEY_ADDRESS || "0x4d3b8dd169fa999a3689ef6eeea640d0468de0fe").toLowerCase(),
+  "limit-order": LIMIT_ORDER_SESSION_KEY.toLowerCase(),
+  savings: (process.env.SAVINGS_SESSION_KEY_ADDRESS || "0x4a5fade4f48c372b4c2cfdd1f58fb1ab1408674a").toLowerCase(),
+  "stop-loss": (process.env.STOP_LOSS_SESSION_KEY_ADDRESS || LIMIT_ORDER_SESSION_KEY).toLowerCase(),
+  "recurring-payment": (
+    process.env.RECURRING_PAYMENT_SESSION_KEY_ADDRESS || "0x9d40c09a940a67ad7aff166c99e9422ce89aeb2d"
+  ).toLowerCase(),
+};
@@ -3,6 +3,9 @@ import express from "express";
 import cors from "cors";
 import { connectDatabase } from "./config/database.js";
 import agentsRouter from "./routes/agents.js";
+import authRouter from "./routes/auth.js";
+import { authenticate } from "./middleware/auth.js";
+import { encryptStoredPermissionContexts } from "./services/encryption.js";
 
 // ============================================
 // Express App Setup
@@ -15,6 +18,9 @@ const PORT = process.env.PORT || 3001;
 app.use(cors());
 app.use(express.json());
 
+// Resolve the caller (SIWE session or agent service) for every request
+app.use(authenticate);
+
 // Request logging
 app.use((req, res, next) => {
   console.log(`${new Date().toISOString()} ${req.method} ${req.path}`);
@@ -33,6 +39,9 @@ app.get("/health", (req, res) => {
   });
 });
 
+// Auth API
+app.use("/api/auth", authRouter);
+
 // Agents API
 app.use("/api/agents", agentsRouter);
 
@@ -46,6 +55,9 @@ async function main() {
     // Connect to MongoDB
     await connectDatabase();
 
+    // Encrypt permission contexts stored in plaintext by older versions
+    await encryptStoredPermissionContexts();
+
     // Start Express server
     app.listen(PORT, () => {
       console.log(`\n🚀 Server running on http://localhost:${PORT}`);
@@ -55,14 +67,26 @@ async function main() {
 
     console.log("\n📋 Available Endpoints (Indexer Only):");
     console.log("   GET  /health              - Health check");
+    console.log("   GET  /api/auth/nonce      - Get SIWE nonce");
+    console.log("   POST /api/auth/verify     - Sign in with a SIWE signature");
+    console.log("   GET  /api/auth/session    - Get signed-in address");
+    console.log("   POST /api/auth/logout     - End session");
     console.log("   GET  /api/agents          - List agents");
     console.log("   GET  /api/agents/:id      - Get agent details");
     console.log("   POST /api/agents/dca      - Create DCA agent");
+    console.log("   POST /api/agents/stop-loss - Create Stop-Loss agent");
     console.log("   PATCH /api/agents/:id     - Update agent");
     console.log("   DELETE /api/agents/:id    - Cancel agent");
+    console.log("   POST /api/agents/:id/reset - Resume a failed agent");
+    console.log("   POST /api/agents/:id/renew - Move an agent to a new permission");
     console.log("   GET  /api/agents/:id/logs - Get execution logs");
     console.log("   POST /api/agents/:id/log  - Add execution log (from agent)");
-    console.log("   GET  /api/agents/due      - Get due agents\n");
+    console.log("   POST /api/agents/:id/claim   - Acquire execution lease (from agent)");
+    console.log("   POST /api/agents/:id/lease   - Extend execution lease (from agent)");
+    console.log("   POST /api/agents/:id/release - Release execution lease (from agent)");
+    console.log("   POST /api/agents/:id/peak-price - Update trailing stop peak (from agent)");
+    console.log("   GET  /api/agents/due      - Get due agents");
+    console.log("   GET  /api/agents/stranded - Get agents with stranded tokens (for recovery)\n");
   } catch (error) {
     console.error("❌ Failed to start server:", error);
     process.exit(1);
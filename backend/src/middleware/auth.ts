@@ -0,0 +1,116 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { Session } from "../models/Session.js";
+
+// ============================================
+// Authentication
+//
+// Two kinds of callers:
+// - user:    a wallet signed in with SIWE, may only manage its own agents
+// - service: the agent service, authenticated with AGENT_SERVICE_TOKEN
+// Both send "Authorization: Bearer <token>".
+// ============================================
+
+export type AuthContext = { role: "user"; address: string } | { role: "service" };
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+const AGENT_SERVICE_TOKEN = process.env.AGENT_SERVICE_TOKEN;
+
+if (!AGENT_SERVICE_TOKEN) {
+  console.warn("⚠️ AGENT_SERVICE_TOKEN not set - service routes will reject every request");
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function isServiceToken(token: string): boolean {
+  if (!AGENT_SERVICE_TOKEN) return false;
+
+  // Compare digests so the comparison is constant-time regardless of length
+  return timingSafeEqual(
+    createHash("sha256").update(token).digest(),
+    createHash("sha256").update(AGENT_SERVICE_TOKEN).digest()
+  );
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+/**
+ * Resolve the caller from the bearer token, if any
+ * Never rejects - routes decide what they require
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const token = getBearerToken(req);
+
+  if (token) {
+    try {
+      if (isServiceToken(token)) {
+        req.auth = { role: "service" };
+      } else {
+        const session = await Session.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+        if (session) {
+          req.auth = { role: "user", address: session.address };
+        }
+      }
+    } catch (error) {
+      console.error("Error resolving session:", error);
+    }
+  }
+
+  next();
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!req.auth) {
+    res.status(401).json({ success: false, error: "Authentication required" });
+    return;
+  }
+  next();
+}
+
+export function requireUser(req: Request, res: Response, next: NextFunction): void {
+  if (req.auth?.role !== "user") {
+    res.status(401).json({ success: false, error: "Sign in with your wallet first" });
+    return;
+  }
+  next();
+}
+
+export function requireService(req: Request, res: Response, next: NextFunction): void {
+  if (req.auth?.role !== "service") {
+    res.status(401).json({ success: false, error: "Service credentials required" });
+    return;
+  }
+  next();
+}
+
+/**
+ * Headers for calls to the agent service, which checks the same token
+ */
+export function serviceHeaders(): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    ...(AGENT_SERVICE_TOKEN && { Authorization: `Bearer ${AGENT_SERVICE_TOKEN}` }),
+  };
+}
+
+/**
+ * Whether the caller may act for a user's agents (the service acts for everyone)
+ */
+export function canActFor(auth: AuthContext | undefined, userAddress: string): boolean {
+  if (!auth) return false;
+  if (auth.role === "service") return true;
+  return auth.address === userAddress.toLowerCase();
+}
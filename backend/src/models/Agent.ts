@@ -14,6 +14,8 @@ export interface DCAConfig {
   intervalSeconds: number; // Interval between executions in seconds
   maxSlippage: number; // e.g., 1.0 for 1%
   feeTier: number; // Uniswap fee tier (500, 3000, 10000)
+  totalAmountIn?: string; // Total tokenIn spent by swaps with a known amountOut
+  totalAmountOut?: string; // Total tokenOut received (for average cost basis)
 }
 
 // Limit Order specific config
@@ -45,26 +47,72 @@ export interface RecurringPaymentConfig {
   totalPaid: string; // Track total amount paid
 }
 
+// Stop-Loss specific config
+export interface StopLossConfig {
+  tokenIn: string; // Token to sell (e.g., WETH address)
+  tokenOut: string; // Token to receive (e.g., USDC address)
+  triggerPrice: string; // Sell when price (tokenOut/tokenIn ratio) falls to or below this
+  amountIn?: string; // Fixed amount to sell in wei/smallest unit
+  sellPercentage?: number; // Or percentage of the balance to sell when triggered (1-100)
+  trailingDistance?: number; // Optional trailing stop distance below the highest price, e.g., 5 for 5%
+  maxSlippage: number; // Fill at most this far below the stop price, e.g., 1.0 for 1%
+  highestPrice?: string; // Highest price observed since creation (trailing stops)
+  feeTier: number; // Uniswap fee tier
+  expiryTimestamp: number; // When the order expires
+}
+
 // Generic agent config (can be extended for other agent types)
 export interface AgentConfig {
   dca?: DCAConfig;
   limitOrder?: LimitOrderConfig;
   savings?: SavingsConfig;
   recurringPayment?: RecurringPaymentConfig;
-  // Future: stopLoss?: StopLossConfig;
+  stopLoss?: StopLossConfig;
+}
+
+// Tokens moved to the session key by an execution that failed before swapping
+export interface InFlightBalance {
+  token: string; // Token held by the session key
+  amount: string; // Amount owed to the user (in wei)
+  holder: string; // Session key address holding the tokens
+  executionId?: string; // Execution that stranded the tokens
+  since: Date;
 }
 
 // Execution log entry
 export interface ExecutionLog {
+  executionId?: string; // Idempotency key for the report (execution ID or txHash)
   timestamp: Date;
-  status: "success" | "failed" | "pending";
+  status: "success" | "failed" | "pending" | "skipped";
+  skipReason?: string; // Why a skipped execution did not run (e.g. "slippage")
+  recovery?: "swap" | "refund"; // Set on recovery actions for stranded tokens
   txHash?: string;
   amountIn?: string;
   amountOut?: string;
+  effectivePrice?: string; // Realized tokenOut per tokenIn for swaps
   error?: string;
+  errorCode?: string; // Typed failure reason from the agent service (e.g. "allowance-exhausted")
   gasUsed?: string;
 }
 
+// A delegation the agent used before it was renewed
+export interface PreviousPermission {
+  permissionContext: string; // Encrypted, like the agent's current permissionContext
+  delegationManager: string;
+  spendingLimit: string;
+  spendingPeriod: number;
+  startTime: number;
+  permissionExpiry?: number;
+  replacedAt: Date;
+}
+
+// Most recent execution failure, shown on the dashboard until an execution succeeds
+export interface LastExecutionError {
+  code: string;
+  message?: string;
+  timestamp: Date;
+}
+
 // Main Agent document interface
 export interface IAgent extends Document {
   // Identification
@@ -73,7 +121,7 @@ export interface IAgent extends Document {
   name: string; // User-friendly name
 
   // Permission data from MetaMask delegation
-  permissionContext: string; // The delegation context (hex)
+  permissionContext: string; // The delegation context, encrypted for the agent service (see services/encryption.ts)
   delegationManager: string; // Delegation manager contract address
   sessionKeyAddress: string; // The session key that can execute (delegate)
 
@@ -84,6 +132,7 @@ export interface IAgent extends Document {
   spendingLimit: string; // Max amount per period (in wei)
   spendingPeriod: number; // Period duration in seconds
   startTime: number; // Unix timestamp when permission started
+  permissionExpiry?: number; // Unix timestamp when the delegation expires (TimestampEnforcer), if it does
 
   // Configuration
   config: AgentConfig;
@@ -93,9 +142,26 @@ export interface IAgent extends Document {
   lastExecution?: Date;
   executionCount: number;
   maxExecutions?: number; // Optional limit
+  consecutiveFailures: number; // Failed executions since the last success (drives backoff)
 
   // Status
   status: AgentStatus;
+  statusReason?: string; // Why the agent was paused or stopped automatically
+  lastError?: LastExecutionError;
+
+  // Execution lease (held by an agent service worker while it executes this agent)
+  lockedUntil?: Date;
+  lockedBy?: string;
+
+  // Stranded tokens awaiting recovery (retry swap or refund)
+  inFlight?: InFlightBalance;
+
+  // Set while the delegation is disabled on-chain (the agent is paused until it is re-enabled)
+  delegationDisabledAt?: Date;
+  delegationDisabledTxHash?: string;
+
+  // Delegations replaced by POST /:id/renew, oldest first
+  permissionHistory: PreviousPermission[];
 
   // Execution history
   executionLogs: ExecutionLog[];
@@ -107,15 +173,47 @@ export interface IAgent extends Document {
 
 // Execution log schema
 const ExecutionLogSchema = new Schema<ExecutionLog>({
+  executionId: { type: String },
   timestamp: { type: Date, required: true },
-  status: { type: String, enum: ["success", "failed", "pending"], required: true },
+  status: { type: String, enum: ["success", "failed", "pending", "skipped"], required: true },
+  skipReason: { type: String },
+  recovery: { type: String, enum: ["swap", "refund"] },
   txHash: { type: String },
   amountIn: { type: String },
   amountOut: { type: String },
+  effectivePrice: { type: String },
   error: { type: String },
+  errorCode: { type: String },
   gasUsed: { type: String },
 });
 
+// Previous permission schema
+const PreviousPermissionSchema = new Schema<PreviousPermission>({
+  permissionContext: { type: String, required: true },
+  delegationManager: { type: String, required: true },
+  spendingLimit: { type: String, required: true },
+  spendingPeriod: { type: Number, required: true },
+  startTime: { type: Number, required: true },
+  permissionExpiry: { type: Number },
+  replacedAt: { type: Date, required: true },
+});
+
+// Last execution error schema
+const LastExecutionErrorSchema = new Schema<LastExecutionError>({
+  code: { type: String, required: true },
+  message: { type: String },
+  timestamp: { type: Date, required: true },
+});
+
+// In-flight balance schema
+const InFlightBalanceSchema = new Schema<InFlightBalance>({
+  token: { type: String, required: true },
+  amount: { type: String, required: true },
+  holder: { type: String, required: true },
+  executionId: { type: String },
+  since: { type: Date, required: true },
+});
+
 // DCA config schema
 const DCAConfigSchema = new Schema<DCAConfig>({
   tokenIn: { type: String, required: true },
@@ -124,6 +222,8 @@ const DCAConfigSchema = new Schema<DCAConfig>({
   intervalSeconds: { type: Number, required: true },
   maxSlippage: { type: Number, default: 1.0 },
   feeTier: { type: Number, default: 3000 },
+  totalAmountIn: { type: String, default: "0" },
+  totalAmountOut: { type: String, default: "0" },
 });
 
 // Limit Order config schema
@@ -155,12 +255,27 @@ const RecurringPaymentConfigSchema = new Schema<RecurringPaymentConfig>({
   totalPaid: { type: String, default: "0" },
 });
 
+// Stop-Loss config schema
+const StopLossConfigSchema = new Schema<StopLossConfig>({
+  tokenIn: { type: String, required: true },
+  tokenOut: { type: String, required: true },
+  triggerPrice: { type: String, required: true },
+  amountIn: { type: String },
+  sellPercentage: { type: Number, min: 1, max: 100 },
+  trailingDistance: { type: Number, min: 0, max: 100 },
+  maxSlippage: { type: Number, default: 1.0 },
+  highestPrice: { type: String },
+  feeTier: { type: Number, default: 3000 },
+  expiryTimestamp: { type: Number, required: true },
+});
+
 // Agent config schema
 const AgentConfigSchema = new Schema<AgentConfig>({
   dca: { type: DCAConfigSchema },
   limitOrder: { type: LimitOrderConfigSchema },
   savings: { type: SavingsConfigSchema },
   recurringPayment: { type: RecurringPaymentConfigSchema },
+  stopLoss: { type: StopLossConfigSchema },
 });
 
 // Main Agent schema
@@ -183,9 +298,11 @@ const AgentSchema = new Schema<IAgent>(
     },
 
     // Permission data
+    // Never loaded unless a query asks for it (service view)
     permissionContext: {
       type: String,
-      required: true
+      required: true,
+      select: false
     },
     delegationManager: {
       type: String,
@@ -221,6 +338,10 @@ const AgentSchema = new Schema<IAgent>(
       required: true,
       index: true
     },
+    permissionExpiry: {
+      type: Number,
+      index: true
+    },
 
     // Configuration
     config: {
@@ -244,6 +365,10 @@ const AgentSchema = new Schema<IAgent>(
     maxExecutions: {
       type: Number
     },
+    consecutiveFailures: {
+      type: Number,
+      default: 0
+    },
 
     // Status
     status: {
@@ -252,6 +377,36 @@ const AgentSchema = new Schema<IAgent>(
       default: "active",
       index: true
     },
+    statusReason: {
+      type: String
+    },
+    lastError: {
+      type: LastExecutionErrorSchema
+    },
+
+    // Execution lease
+    lockedUntil: {
+      type: Date
+    },
+    lockedBy: {
+      type: String
+    },
+
+    // Stranded tokens awaiting recovery
+    inFlight: {
+      type: InFlightBalanceSchema
+    },
+
+    // Delegation disabled on-chain
+    delegationDisabledAt: {
+      type: Date
+    },
+    delegationDisabledTxHash: {
+      type: String
+    },
+
+    // Replaced delegations
+    permissionHistory: [PreviousPermissionSchema],
 
     // Execution history
     executionLogs: [ExecutionLogSchema],
@@ -278,3 +433,18 @@ AgentSchema.index({
 });
 
 export const Agent = mongoose.model<IAgent>("Agent", AgentSchema);
+
+// ============================================
+// Projection profiles
+// public:  anyone - no secrets, logs or lease internals
+// owner:   the signed-in owner - everything except the delegation itself
+// service: the agent service - everything, including the encrypted permissionContext
+// ============================================
+
+export type AgentView = "public" | "owner" | "service";
+
+export const AGENT_VIEWS: Record<AgentView, string> = {
+  public: "-permissionContext -permissionHistory -executionLogs -lockedBy -lockedUntil -inFlight",
+  owner: "-permissionContext -permissionHistory.permissionContext -lockedBy",
+  service: "+permissionContext",
+};
@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// ============================================
+// Sign-In-With-Ethereum sessions
+// ============================================
+
+// Single-use nonce handed out before the user signs the SIWE message
+export interface IAuthNonce extends Document {
+  nonce: string;
+  expiresAt: Date;
+}
+
+// Session bound to the wallet that signed in
+export interface ISession extends Document {
+  tokenHash: string; // sha256 of the bearer token (the token itself is never stored)
+  address: string; // Signed-in wallet address (lowercase)
+  chainId: number;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const AuthNonceSchema = new Schema<IAuthNonce>({
+  nonce: { type: String, required: true, unique: true },
+  // TTL index - MongoDB removes expired nonces
+  expiresAt: { type: Date, required: true, index: { expires: 0 } },
+});
+
+const SessionSchema = new Schema<ISession>(
+  {
+    tokenHash: { type: String, required: true, unique: true },
+    address: { type: String, required: true, lowercase: true, index: true },
+    chainId: { type: Number, required: true },
+    // TTL index - MongoDB removes expired sessions
+    expiresAt: { type: Date, required: true, index: { expires: 0 } },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+export const AuthNonce = mongoose.model<IAuthNonce>("AuthNonce", AuthNonceSchema);
+export const Session = mongoose.model<ISession>("Session", SessionSchema);
@@ -0,0 +1,252 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import {
+  LIMIT_ORDER_SESSION_KEY,
+  OTHER_USER,
+  SERVICE_TOKEN,
+  USDC,
+  USER,
+  limitOrderAgent,
+  permissionContext,
+  startTestApi,
+  type TestApi,
+} from "../test/harness.js";
+
+describe("Agent routes", () => {
+  let api: TestApi;
+
+  beforeEach(async () => {
+    api = await startTestApi();
+  });
+
+  afterEach(async () => {
+    await api.close();
+    mock.restoreAll();
+  });
+
+  // ============================================
+  // Execution leases
+  // ============================================
+
+  describe("Execution leases", () => {
+    const claim = (id: string, workerId: string, body: Record<string, unknown> = {}) =>
+      api.request("POST", `/api/agents/${id}/claim`, { token: SERVICE_TOKEN, body: { workerId, ...body } });
+    const extend = (id: string, workerId: string) =>
+      api.request("POST", `/api/agents/${id}/lease`, { token: SERVICE_TOKEN, body: { workerId } });
+    const release = (id: string, workerId: string) =>
+      api.request("POST", `/api/agents/${id}/release`, { token: SERVICE_TOKEN, body: { workerId } });
+
+    it("Only one of two workers racing for an agent gets the lease", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+
+      const [first, second] = await Promise.all([claim(id, "worker-a"), claim(id, "worker-b")]);
+
+      assert.deepEqual([first.status, second.status].sort(), [200, 409]);
+      const winner = first.status === 200 ? "worker-a" : "worker-b";
+      assert.equal(api.agents.get(id)?.lockedBy, winner);
+    });
+
+    it("A held lease can't be claimed again, even by the same worker", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+
+      assert.equal((await claim(id, "worker-a")).status, 200);
+      assert.equal((await claim(id, "worker-a")).status, 409);
+      assert.equal((await claim(id, "worker-b")).status, 409);
+    });
+
+    it("An expired lease is claimed by another worker, and the old holder can't renew it", async () => {
+      const id = api.agents.insert(limitOrderAgent({ lockedBy: "worker-a", lockedUntil: new Date(Date.now() - 1000) })).id;
+
+      const response = await claim(id, "worker-b");
+
+      assert.equal(response.status, 200);
+      assert.equal(response.body.agent.lockedBy, "worker-b");
+      assert.equal((await extend(id, "worker-a")).status, 409);
+      assert.equal((await extend(id, "worker-b")).status, 200);
+    });
+
+    it("Renewing a lease moves its expiry forward", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+      await claim(id, "worker-a", { leaseSeconds: 10 });
+      const claimedUntil = api.agents.get(id)?.lockedUntil as Date;
+
+      const response = await extend(id, "worker-a");
+
+      assert.equal(response.status, 200);
+      assert.ok((api.agents.get(id)?.lockedUntil as Date) > claimedUntil);
+    });
+
+    it("An expired lease can't be renewed even by its holder", async () => {
+      const id = api.agents.insert(limitOrderAgent({ lockedBy: "worker-a", lockedUntil: new Date(Date.now() - 1000) })).id;
+
+      const response = await extend(id, "worker-a");
+
+      assert.equal(response.status, 409);
+    });
+
+    it("Only the holder can release a lease, which makes the agent claimable again", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+      await claim(id, "worker-a");
+
+      assert.equal((await release(id, "worker-b")).body.released, false);
+      assert.equal((await claim(id, "worker-b")).status, 409);
+
+      assert.equal((await release(id, "worker-a")).body.released, true);
+      assert.equal((await claim(id, "worker-b")).status, 200);
+    });
+
+    it("Scheduled claims skip agents that are not due yet", async () => {
+      const id = api.agents.insert(limitOrderAgent({ nextExecution: new Date(Date.now() + 60 * 1000) })).id;
+
+      assert.equal((await claim(id, "worker-a", { dueOnly: true })).status, 409);
+      assert.equal((await claim(id, "worker-a")).status, 200);
+    });
+
+    it("Inactive agents can't be claimed", async () => {
+      const id = api.agents.insert(limitOrderAgent({ status: "paused" })).id;
+
+      const response = await claim(id, "worker-a");
+
+      assert.equal(response.status, 409);
+      assert.equal(api.agents.get(id)?.lockedBy, undefined);
+    });
+
+    it("Lease routes are only open to the agent service", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+      const token = api.signIn(USER);
+
+      const response = await api.request("POST", `/api/agents/${id}/claim`, { token, body: { workerId: "worker-a" } });
+
+      assert.equal(response.status, 401);
+    });
+  });
+
+  // ============================================
+  // Execution reports
+  // ============================================
+
+  describe("Execution reports", () => {
+    const TX_HASH = "0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060";
+    const filled = { success: true, txHash: TX_HASH, amountIn: "1000000", amountOut: "330000000000000" };
+
+    const report = (id: string, body: Record<string, unknown>) =>
+      api.request("POST", `/api/agents/${id}/log`, { token: SERVICE_TOKEN, body });
+
+    it("A replayed report is acknowledged without being counted again", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+
+      const first = await report(id, { executionId: "run-1", ...filled });
+      const replay = await report(id, { executionId: "run-1", ...filled });
+
+      assert.equal(first.body.duplicate, undefined);
+      assert.equal(replay.status, 200);
+      assert.equal(replay.body.duplicate, true);
+      assert.equal(api.agents.get(id)?.executionCount, 1);
+      assert.equal((api.agents.get(id)?.executionLogs as unknown[]).length, 1);
+    });
+
+    it("Concurrent reports of one transaction under different execution IDs count it once", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+      api.agents.holdWrites(2);
+
+      const responses = await Promise.all([
+        report(id, { executionId: "run-1", ...filled }),
+        report(id, { executionId: "run-1-retry", ...filled }),
+      ]);
+
+      assert.deepEqual(responses.map((response) => response.status), [200, 200]);
+      assert.equal(responses.filter((response) => response.body.duplicate).length, 1);
+      assert.equal(api.agents.get(id)?.executionCount, 1);
+      assert.equal((api.agents.get(id)?.executionLogs as unknown[]).length, 1);
+    });
+
+    it("Concurrent replays with the same execution ID count it once", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+      api.agents.holdWrites(2);
+
+      await Promise.all([report(id, { executionId: "run-1", ...filled }), report(id, { executionId: "run-1", ...filled })]);
+
+      assert.equal(api.agents.get(id)?.executionCount, 1);
+      assert.equal((api.agents.get(id)?.executionLogs as unknown[]).length, 1);
+    });
+
+    it("A different report for a recorded execution is a conflict", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+      await report(id, { executionId: "run-1", ...filled });
+
+      const conflicting = await report(id, { executionId: "run-1", success: false, error: "Swap reverted" });
+
+      assert.equal(conflicting.status, 409);
+      assert.equal(api.agents.get(id)?.executionCount, 1);
+      assert.equal(api.agents.get(id)?.status, "completed");
+    });
+  });
+
+  // ============================================
+  // Permission renewal
+  // ============================================
+
+  describe("Permission renewal", () => {
+    const renewal = (startTime: number) => ({
+      permissionContext: permissionContext({ periodAmount: 2000000n, startDate: startTime, expiry: startTime + 7 * 86400 }),
+      delegationManager: "0xdb9b1e94b5b69df7e401ddbede43491141047db3",
+      sessionKeyAddress: LIMIT_ORDER_SESSION_KEY,
+      chainId: 84532,
+      spendingToken: USDC,
+      spendingLimit: "2000000",
+      spendingPeriod: 86400,
+      startTime,
+    });
+
+    const executionLog = {
+      executionId: "run-1",
+      status: "failed",
+      error: "Permission has expired",
+      timestamp: new Date(Date.now() - 60 * 1000),
+    };
+
+    it("Moves the agent to the new permission and keeps its history and counters", async () => {
+      const id = api.agents.insert(
+        limitOrderAgent({
+          status: "failed",
+          statusReason: "Failed 5 times in a row: Permission has expired",
+          consecutiveFailures: 5,
+          executionCount: 3,
+          executionLogs: [executionLog],
+        })
+      ).id;
+      const startTime = Math.floor(Date.now() / 1000);
+
+      const response = await api.request("POST", `/api/agents/${id}/renew`, { token: api.signIn(USER), body: renewal(startTime) });
+
+      assert.equal(response.status, 200);
+      const renewed = api.agents.get(id)!;
+      assert.equal(renewed.status, "active");
+      assert.equal(renewed.consecutiveFailures, 0);
+      assert.equal(renewed.spendingLimit, "2000000");
+      assert.equal(renewed.startTime, startTime);
+      assert.equal(renewed.permissionExpiry, startTime + 7 * 86400);
+      assert.notEqual(renewed.permissionContext, "enc:v1:test");
+
+      assert.equal(renewed.executionCount, 3);
+      assert.deepEqual((renewed.executionLogs as Array<{ executionId: string }>).map((log) => log.executionId), ["run-1"]);
+      const history = renewed.permissionHistory as Array<{ permissionContext: string; spendingLimit: string; startTime: number }>;
+      assert.equal(history.length, 1);
+      assert.equal(history[0].permissionContext, "enc:v1:test");
+      assert.equal(history[0].spendingLimit, "1000000");
+      assert.equal(history[0].startTime, 1700000000);
+    });
+
+    it("Only the owner can renew an agent", async () => {
+      const id = api.agents.insert(limitOrderAgent({ status: "failed" })).id;
+
+      const response = await api.request("POST", `/api/agents/${id}/renew`, {
+        token: api.signIn(OTHER_USER),
+        body: renewal(Math.floor(Date.now() / 1000)),
+      });
+
+      assert.equal(response.status, 403);
+      assert.equal(api.agents.get(id)?.status, "failed");
+    });
+  });
+});
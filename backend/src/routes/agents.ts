@@ -1,9 +1,36 @@
 import { Router, Request, Response } from "express";
-import { Agent, AgentStatus } from "../models/Agent.js";
-import { buildOnChainDataMap, createDelegationKey } from "../services/envio.js";
+import { Agent, AgentStatus, AGENT_VIEWS, ExecutionLog, IAgent } from "../models/Agent.js";
+import { buildOnChainDataMap, createDelegationKey, type OnChainDelegationData } from "../services/envio.js";
+import { isSupportedChain, SUPPORTED_CHAIN_IDS } from "../config/chains.js";
+import { canActFor, requireService, requireUser, serviceHeaders } from "../middleware/auth.js";
+import { encryptPermissionContext } from "../services/encryption.js";
+import { verifyPermission } from "../services/permissions.js";
+import {
+  getReportedAmounts,
+  nextPeriodStart,
+  scheduleNextExecution,
+  summarizeSpending,
+  type PeriodSpending,
+} from "../services/allowance.js";
+import { recordFailure, resetFailures } from "../services/failures.js";
 
 const router = Router();
 
+// Default execution lease - covers one step waiting on its receipt, workers renew it between steps
+const DEFAULT_LEASE_SECONDS = 300;
+
+// Simulated reverts that clear up by waiting for the next spending period - any other
+// retryable revert (unknown, insufficient balance or allowance) counts as a failure
+const PERIOD_WAIT_ERROR_CODES = new Set([
+  "allowance-exhausted",
+  "period-not-started",
+  "delegation-not-yet-valid",
+  "delegation-manager-paused",
+]);
+
+// Flag permissions expiring within this window so the user can re-grant (3 days)
+const EXPIRY_WARNING_SECONDS = parseInt(process.env.EXPIRY_WARNING_SECONDS || "259200");
+
 // ============================================
 // Types for request bodies
 // ============================================
@@ -95,6 +122,55 @@ interface CreateRecurringPaymentAgentBody {
   maxExecutions?: number;
 }
 
+interface CreateStopLossAgentBody {
+  userAddress: string;
+  name: string;
+  permissionContext: string;
+  delegationManager: string;
+  sessionKeyAddress: string;
+  // Permission metadata for on-chain correlation
+  chainId: number;
+  spendingToken: string;
+  spendingLimit: string;
+  spendingPeriod: number;
+  startTime: number;
+  config: {
+    tokenIn: string;
+    tokenOut: string;
+    triggerPrice: string;
+    amountIn?: string;
+    sellPercentage?: number;
+    trailingDistance?: number;
+    maxSlippage?: number;
+    feeTier?: number;
+    expiryTimestamp: number;
+  };
+}
+
+interface RenewAgentBody {
+  permissionContext: string;
+  delegationManager: string;
+  sessionKeyAddress: string;
+  // Permission metadata for on-chain correlation
+  chainId: number;
+  spendingToken: string;
+  spendingLimit: string;
+  spendingPeriod: number;
+  startTime: number;
+}
+
+interface ClaimAgentBody {
+  workerId: string;
+  leaseSeconds?: number;
+  dueOnly?: boolean; // Only claim if nextExecution has passed (scheduled runs)
+  recovery?: boolean; // Claim to recover stranded tokens (any status, requires an in-flight balance)
+}
+
+interface ExtendLeaseBody {
+  workerId: string;
+  leaseSeconds?: number;
+}
+
 interface UpdateAgentBody {
   name?: string;
   status?: AgentStatus;
@@ -105,6 +181,101 @@ interface UpdateAgentBody {
   };
 }
 
+// ============================================
+// Execution report idempotency helpers
+// ============================================
+
+function findReportedExecution(logs: ExecutionLog[], report: ExecutionLog): ExecutionLog | undefined {
+  return logs.find(
+    (log) =>
+      (report.executionId && log.executionId === report.executionId) ||
+      (report.txHash && log.txHash === report.txHash)
+  );
+}
+
+function isSameReport(a: ExecutionLog, b: ExecutionLog): boolean {
+  return (
+    a.status === b.status &&
+    (a.txHash || null) === (b.txHash || null) &&
+    (a.amountIn || null) === (b.amountIn || null) &&
+    (a.amountOut || null) === (b.amountOut || null)
+  );
+}
+
+// Token and per-execution amount an agent spends from its permission
+function getAgentSpend(agent: IAgent): { token: string; amountPerExecution?: string } {
+  const { dca, limitOrder, savings, recurringPayment, stopLoss } = agent.config;
+
+  if (dca) return { token: dca.tokenIn, amountPerExecution: dca.amountPerExecution };
+  if (limitOrder) return { token: limitOrder.tokenIn, amountPerExecution: limitOrder.amountIn };
+  if (savings) return { token: savings.token, amountPerExecution: savings.amountPerExecution };
+  if (recurringPayment) return { token: recurringPayment.token, amountPerExecution: recurringPayment.amount };
+  if (stopLoss) return { token: stopLoss.tokenIn, amountPerExecution: stopLoss.amountIn };
+
+  return { token: agent.spendingToken };
+}
+
+// Add a swap to the DCA running totals used for the average cost basis
+function addToCostBasis(agent: IAgent, amountIn?: string, amountOut?: string): void {
+  if (!agent.config.dca || !amountIn || !amountOut) return;
+
+  agent.config.dca.totalAmountIn = (BigInt(agent.config.dca.totalAmountIn || "0") + BigInt(amountIn)).toString();
+  agent.config.dca.totalAmountOut = (BigInt(agent.config.dca.totalAmountOut || "0") + BigInt(amountOut)).toString();
+}
+
+function respondToReplayedReport(res: Response, agent: IAgent, existing: ExecutionLog, report: ExecutionLog): void {
+  if (!isSameReport(existing, report)) {
+    res.status(409).json({
+      success: false,
+      error: `A different report was already recorded for execution ${existing.executionId || existing.txHash}`,
+    });
+    return;
+  }
+
+  console.log(`📊 Ignored replayed execution report ${report.executionId} for agent ${agent._id}`);
+
+  res.json({
+    success: true,
+    duplicate: true,
+    executionCount: agent.executionCount,
+    nextExecution: agent.nextExecution,
+  });
+}
+
+// Append a report's log and apply the agent changes made for it in a single update.
+// The update only matches while no report with the same execution ID or txHash is
+// recorded, so a concurrent replay can neither duplicate the log nor count the execution twice.
+// Returns null (after responding) when another report for the execution won the race.
+async function applyReport(res: Response, agent: IAgent, logEntry: ExecutionLog): Promise<IAgent | null> {
+  const filter: Record<string, unknown> = { _id: agent._id };
+  const sameExecution = [
+    ...(logEntry.executionId ? [{ executionId: logEntry.executionId }] : []),
+    ...(logEntry.txHash ? [{ txHash: logEntry.txHash }] : []),
+  ];
+  if (sameExecution.length > 0) {
+    filter.executionLogs = { $not: { $elemMatch: { $or: sameExecution } } };
+  }
+
+  const updated = await Agent.findOneAndUpdate(
+    filter,
+    { ...agent.$getChanges(), $push: { executionLogs: logEntry } },
+    { returnDocument: "after" }
+  );
+  if (updated) return updated;
+
+  const latest = await Agent.findById(agent._id);
+  const winner = latest && findReportedExecution(latest.executionLogs, logEntry);
+  if (latest && winner) {
+    respondToReplayedReport(res, latest, winner, logEntry);
+  } else {
+    res.status(404).json({
+      success: false,
+      error: "Agent not found",
+    });
+  }
+  return null;
+}
+
 // ============================================
 // GET /agents - List all agents (optionally filter by user)
 // ============================================
@@ -119,7 +290,7 @@ router.get("/", async (req: Request, res: Response) => {
 
     const agents = await Agent.find(filter)
       .sort({ createdAt: -1 })
-      .select("-executionLogs"); // Exclude logs for list view
+      .select(AGENT_VIEWS.public);
 
     res.json({
       success: true,
@@ -163,7 +334,7 @@ router.get("/user/:address", async (req: Request, res: Response) => {
       ...statusQuery,
     })
       .sort({ createdAt: -1 })
-      .select("-executionLogs -permissionContext"); // Exclude large fields
+      .select(AGENT_VIEWS.public);
 
     // Filter out agents without permission metadata (legacy agents)
     const validAgents = agents.filter(agent =>
@@ -171,7 +342,7 @@ router.get("/user/:address", async (req: Request, res: Response) => {
     );
 
     // Fetch on-chain redemption data from Envio (single request for all agents)
-    let onChainDataMap: Map<string, { redemptionCount: number; totalSpent: bigint; lastRedemptionAt: number | null; lastTxHash: string | null }> = new Map();
+    let onChainDataMap: Map<string, OnChainDelegationData> = new Map();
     try {
       onChainDataMap = await buildOnChainDataMap(userAddress);
       console.log(`Fetched ${onChainDataMap.size} on-chain delegations from Envio for ${userAddress}`);
@@ -180,8 +351,15 @@ router.get("/user/:address", async (req: Request, res: Response) => {
       // Continue with empty map - will use off-chain data as fallback
     }
 
+    // Reported execution amounts, for redemptions the indexer could not decode (e.g. swaps)
+    const agentsWithLogs = await Agent.find({ _id: { $in: validAgents.map((agent) => agent._id) } }).select(
+      "executionLogs.status executionLogs.recovery executionLogs.txHash executionLogs.amountIn executionLogs.timestamp"
+    );
+    const logsByAgent = new Map(agentsWithLogs.map((agent) => [agent._id.toString(), agent.executionLogs]));
+
     // Calculate monthly limit for each agent
     const SECONDS_PER_MONTH = 30 * 24 * 60 * 60; // 2592000
+    const nowSeconds = Math.floor(Date.now() / 1000);
 
     const permissions = validAgents.map((agent) => {
       // Calculate how many executions per month
@@ -201,15 +379,22 @@ router.get("/user/:address", async (req: Request, res: Response) => {
 
       const onChainData = onChainDataMap.get(delegationKey);
 
+      const executionLogs = logsByAgent.get(agent._id.toString()) ?? [];
+
       // Use on-chain data if available, otherwise fall back to off-chain tracking
       let spent = BigInt(0);
+      let currentPeriod: PeriodSpending;
+      let periodSpending: PeriodSpending[];
       let onChainRedemptionCount = 0;
       let lastOnChainExecution: number | null = null;
       let lastTxHash: string | null = null;
 
       if (onChainData) {
-        // Use on-chain data (source of truth)
-        spent = onChainData.totalSpent;
+        // Use on-chain data (source of truth), with the amounts each execution actually moved
+        const spending = summarizeSpending(agent, onChainData.redemptions, getReportedAmounts(executionLogs));
+        spent = spending.totalSpent;
+        currentPeriod = spending.currentPeriod;
+        periodSpending = spending.periods;
         onChainRedemptionCount = onChainData.redemptionCount;
         lastOnChainExecution = onChainData.lastRedemptionAt;
         lastTxHash = onChainData.lastTxHash;
@@ -223,7 +408,24 @@ router.get("/user/:address", async (req: Request, res: Response) => {
           spent = BigInt(agent.config.recurringPayment.totalPaid || "0");
         } else if (agent.agentType === "limit-order" && agent.config.limitOrder) {
           spent = agent.executionCount > 0 ? BigInt(agent.config.limitOrder.amountIn) : BigInt(0);
+        } else if (agent.agentType === "stop-loss" && agent.config.stopLoss) {
+          // Percentage orders sell at most the granted allowance
+          spent = agent.executionCount > 0
+            ? BigInt(agent.config.stopLoss.amountIn || agent.spendingLimit)
+            : BigInt(0);
         }
+
+        // Per-period spend from the agent's own execution logs
+        const reported = executionLogs
+          .filter((log) => log.status === "success" && !log.recovery && log.amountIn)
+          .map((log) => ({
+            timestamp: Math.floor(log.timestamp.getTime() / 1000),
+            txHash: log.txHash ?? "",
+            executedAmount: BigInt(log.amountIn!),
+          }));
+        const spending = summarizeSpending(agent, reported, new Map());
+        currentPeriod = spending.currentPeriod;
+        periodSpending = spending.periods;
       }
 
       return {
@@ -231,6 +433,8 @@ router.get("/user/:address", async (req: Request, res: Response) => {
         name: agent.name,
         agentType: agent.agentType,
         status: agent.status,
+        statusReason: agent.statusReason,
+        lastError: agent.lastError,
         // Permission data for on-chain correlation
         chainId: agent.chainId,
         spendingToken: agent.spendingToken,
@@ -238,9 +442,17 @@ router.get("/user/:address", async (req: Request, res: Response) => {
         spendingPeriod: agent.spendingPeriod,
         startTime: agent.startTime,
         sessionKeyAddress: agent.sessionKeyAddress,
+        permissionExpiry: agent.permissionExpiry,
+        expiresSoon: !!agent.permissionExpiry &&
+          agent.permissionExpiry > nowSeconds &&
+          agent.permissionExpiry - nowSeconds <= EXPIRY_WARNING_SECONDS,
         // Calculated values
         monthlyLimit: monthlyLimit.toString(),
         spent: spent.toString(),
+        spentThisPeriod: currentPeriod.spent,
+        periodStart: currentPeriod.start,
+        periodEnd: currentPeriod.end,
+        periodSpending,
         // Execution info (prefer on-chain data)
         executionCount: onChainData ? onChainRedemptionCount : agent.executionCount,
         onChainRedemptionCount,
@@ -275,11 +487,18 @@ router.get("/user/:address", async (req: Request, res: Response) => {
 // GET /agents/due - Get all agents due for execution
 // IMPORTANT: This must be before /:id route
 // ============================================
-router.get("/due", async (req: Request, res: Response) => {
+router.get("/due", requireService, async (req: Request, res: Response) => {
   try {
+    const now = new Date();
     const dueAgents = await Agent.find({
       status: "active",
-      nextExecution: { $lte: new Date() },
+      nextExecution: { $lte: now },
+      // Skip agents whose delegation expired since the last expiry sweep
+      permissionExpiry: { $not: { $lte: Math.floor(now.getTime() / 1000) } },
+      // Skip agents with stranded tokens until the recovery sweep settles them
+      inFlight: null,
+      // Skip agents currently leased by a worker
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
     })
       .sort({ nextExecution: 1 })
       .select("_id userAddress name agentType nextExecution");
@@ -298,12 +517,84 @@ router.get("/due", async (req: Request, res: Response) => {
   }
 });
 
+// ============================================
+// GET /agents/stranded - Get agents with tokens stranded on a session key (for recovery)
+// ============================================
+router.get("/stranded", requireService, async (req: Request, res: Response) => {
+  try {
+    const now = new Date();
+    const strandedAgents = await Agent.find({
+      inFlight: { $ne: null },
+      // Skip agents currently leased by a worker
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+    })
+      .sort({ "inFlight.since": 1 })
+      .select("_id userAddress name agentType chainId status inFlight");
+
+    res.json({
+      success: true,
+      count: strandedAgents.length,
+      agents: strandedAgents,
+    });
+  } catch (error) {
+    console.error("Error fetching stranded agents:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch stranded agents",
+    });
+  }
+});
+
+// ============================================
+// Ownership check for every /:id route
+// Users may only access their own agents, the agent service may access all
+// ============================================
+router.param("id", async (req: Request, res: Response, next, id: string) => {
+  if (!req.auth) {
+    res.status(401).json({
+      success: false,
+      error: "Authentication required",
+    });
+    return;
+  }
+
+  try {
+    const agent = await Agent.findById(id).select("userAddress");
+
+    if (!agent) {
+      res.status(404).json({
+        success: false,
+        error: "Agent not found",
+      });
+      return;
+    }
+
+    if (!canActFor(req.auth, agent.userAddress)) {
+      res.status(403).json({
+        success: false,
+        error: "Not the owner of this agent",
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error("Error checking agent ownership:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch agent",
+    });
+  }
+});
+
 // ============================================
 // GET /agents/:id - Get single agent with full details
 // ============================================
 router.get("/:id", async (req: Request, res: Response) => {
   try {
-    const agent = await Agent.findById(req.params.id);
+    // Ownership is checked by router.param - the caller is the owner or the agent service
+    const view = req.auth?.role === "service" ? AGENT_VIEWS.service : AGENT_VIEWS.owner;
+    const agent = await Agent.findById(req.params.id).select(view);
 
     if (!agent) {
       res.status(404).json({
@@ -329,7 +620,7 @@ router.get("/:id", async (req: Request, res: Response) => {
 // ============================================
 // POST /agents/dca - Create a new DCA agent
 // ============================================
-router.post("/dca", async (req: Request, res: Response) => {
+router.post("/dca", requireUser, async (req: Request, res: Response) => {
   try {
     const body: CreateDCAAgentBody = req.body;
 
@@ -342,6 +633,14 @@ router.post("/dca", async (req: Request, res: Response) => {
       return;
     }
 
+    if (!canActFor(req.auth, body.userAddress)) {
+      res.status(403).json({
+        success: false,
+        error: "userAddress does not match the signed-in wallet",
+      });
+      return;
+    }
+
     // Validate permission metadata
     if (!body.chainId || !body.spendingToken || !body.spendingLimit || !body.spendingPeriod || !body.startTime) {
       res.status(400).json({
@@ -351,6 +650,14 @@ router.post("/dca", async (req: Request, res: Response) => {
       return;
     }
 
+    if (!isSupportedChain(body.chainId)) {
+      res.status(400).json({
+        success: false,
+        error: `Unsupported chainId ${body.chainId}, supported: ${SUPPORTED_CHAIN_IDS.join(", ")}`,
+      });
+      return;
+    }
+
     if (!body.config || !body.config.tokenIn || !body.config.tokenOut || !body.config.amountPerExecution) {
       res.status(400).json({
         success: false,
@@ -367,6 +674,20 @@ router.post("/dca", async (req: Request, res: Response) => {
       return;
     }
 
+    // The signed delegation must match the metadata and cover one execution
+    const permission = verifyPermission("dca", body, {
+      token: body.config.tokenIn,
+      amountPerExecution: body.config.amountPerExecution,
+    });
+
+    if (!permission.valid) {
+      res.status(400).json({
+        success: false,
+        error: permission.error,
+      });
+      return;
+    }
+
     // Set first execution to now (ready to execute immediately)
     const nextExecution = new Date();
 
@@ -374,7 +695,7 @@ router.post("/dca", async (req: Request, res: Response) => {
       userAddress: body.userAddress.toLowerCase(),
       agentType: "dca",
       name: body.name || `DCA Agent`,
-      permissionContext: body.permissionContext,
+      permissionContext: encryptPermissionContext(body.permissionContext),
       delegationManager: body.delegationManager,
       sessionKeyAddress: body.sessionKeyAddress.toLowerCase(),
       // Permission metadata
@@ -383,6 +704,7 @@ router.post("/dca", async (req: Request, res: Response) => {
       spendingLimit: body.spendingLimit,
       spendingPeriod: body.spendingPeriod,
       startTime: body.startTime,
+      permissionExpiry: permission.terms.expiry ?? undefined,
       config: {
         dca: {
           tokenIn: body.config.tokenIn,
@@ -428,7 +750,7 @@ router.post("/dca", async (req: Request, res: Response) => {
 // ============================================
 // POST /agents/limit-order - Create a new Limit Order agent
 // ============================================
-router.post("/limit-order", async (req: Request, res: Response) => {
+router.post("/limit-order", requireUser, async (req: Request, res: Response) => {
   try {
     const body: CreateLimitOrderAgentBody = req.body;
 
@@ -441,6 +763,14 @@ router.post("/limit-order", async (req: Request, res: Response) => {
       return;
     }
 
+    if (!canActFor(req.auth, body.userAddress)) {
+      res.status(403).json({
+        success: false,
+        error: "userAddress does not match the signed-in wallet",
+      });
+      return;
+    }
+
     // Validate permission metadata
     if (!body.chainId || !body.spendingToken || !body.spendingLimit || !body.spendingPeriod || !body.startTime) {
       res.status(400).json({
@@ -450,6 +780,14 @@ router.post("/limit-order", async (req: Request, res: Response) => {
       return;
     }
 
+    if (!isSupportedChain(body.chainId)) {
+      res.status(400).json({
+        success: false,
+        error: `Unsupported chainId ${body.chainId}, supported: ${SUPPORTED_CHAIN_IDS.join(", ")}`,
+      });
+      return;
+    }
+
     if (!body.config || !body.config.tokenIn || !body.config.tokenOut || !body.config.amountIn || !body.config.targetPrice) {
       res.status(400).json({
         success: false,
@@ -466,6 +804,20 @@ router.post("/limit-order", async (req: Request, res: Response) => {
       return;
     }
 
+    // The signed delegation must match the metadata and cover one execution
+    const permission = verifyPermission("limit-order", body, {
+      token: body.config.tokenIn,
+      amountPerExecution: body.config.amountIn,
+    });
+
+    if (!permission.valid) {
+      res.status(400).json({
+        success: false,
+        error: permission.error,
+      });
+      return;
+    }
+
     // For limit orders, start checking immediately
     const nextExecution = new Date();
 
@@ -473,7 +825,7 @@ router.post("/limit-order", async (req: Request, res: Response) => {
       userAddress: body.userAddress.toLowerCase(),
       agentType: "limit-order",
       name: body.name || `Limit Order`,
-      permissionContext: body.permissionContext,
+      permissionContext: encryptPermissionContext(body.permissionContext),
       delegationManager: body.delegationManager,
       sessionKeyAddress: body.sessionKeyAddress.toLowerCase(),
       // Permission metadata
@@ -482,6 +834,7 @@ router.post("/limit-order", async (req: Request, res: Response) => {
       spendingLimit: body.spendingLimit,
       spendingPeriod: body.spendingPeriod,
       startTime: body.startTime,
+      permissionExpiry: permission.terms.expiry ?? undefined,
       config: {
         limitOrder: {
           tokenIn: body.config.tokenIn,
@@ -529,7 +882,7 @@ router.post("/limit-order", async (req: Request, res: Response) => {
 // ============================================
 // POST /agents/savings - Create a new Savings agent (Aave V3)
 // ============================================
-router.post("/savings", async (req: Request, res: Response) => {
+router.post("/savings", requireUser, async (req: Request, res: Response) => {
   try {
     const body: CreateSavingsAgentBody = req.body;
 
@@ -542,6 +895,14 @@ router.post("/savings", async (req: Request, res: Response) => {
       return;
     }
 
+    if (!canActFor(req.auth, body.userAddress)) {
+      res.status(403).json({
+        success: false,
+        error: "userAddress does not match the signed-in wallet",
+      });
+      return;
+    }
+
     // Validate permission metadata
     if (!body.chainId || !body.spendingToken || !body.spendingLimit || !body.spendingPeriod || !body.startTime) {
       res.status(400).json({
@@ -551,6 +912,14 @@ router.post("/savings", async (req: Request, res: Response) => {
       return;
     }
 
+    if (!isSupportedChain(body.chainId)) {
+      res.status(400).json({
+        success: false,
+        error: `Unsupported chainId ${body.chainId}, supported: ${SUPPORTED_CHAIN_IDS.join(", ")}`,
+      });
+      return;
+    }
+
     if (!body.config || !body.config.token || !body.config.amountPerExecution) {
       res.status(400).json({
         success: false,
@@ -567,6 +936,20 @@ router.post("/savings", async (req: Request, res: Response) => {
       return;
     }
 
+    // The signed delegation must match the metadata and cover one execution
+    const permission = verifyPermission("savings", body, {
+      token: body.config.token,
+      amountPerExecution: body.config.amountPerExecution,
+    });
+
+    if (!permission.valid) {
+      res.status(400).json({
+        success: false,
+        error: permission.error,
+      });
+      return;
+    }
+
     // Set first execution to now (ready to execute immediately)
     const nextExecution = new Date();
 
@@ -574,7 +957,7 @@ router.post("/savings", async (req: Request, res: Response) => {
       userAddress: body.userAddress.toLowerCase(),
       agentType: "savings",
       name: body.name || `Savings Agent`,
-      permissionContext: body.permissionContext,
+      permissionContext: encryptPermissionContext(body.permissionContext),
       delegationManager: body.delegationManager,
       sessionKeyAddress: body.sessionKeyAddress.toLowerCase(),
       // Permission metadata
@@ -583,6 +966,7 @@ router.post("/savings", async (req: Request, res: Response) => {
       spendingLimit: body.spendingLimit,
       spendingPeriod: body.spendingPeriod,
       startTime: body.startTime,
+      permissionExpiry: permission.terms.expiry ?? undefined,
       config: {
         savings: {
           token: body.config.token,
@@ -628,7 +1012,7 @@ router.post("/savings", async (req: Request, res: Response) => {
 // ============================================
 // POST /agents/recurring-payment - Create a new Recurring Payment agent
 // ============================================
-router.post("/recurring-payment", async (req: Request, res: Response) => {
+router.post("/recurring-payment", requireUser, async (req: Request, res: Response) => {
   try {
     const body: CreateRecurringPaymentAgentBody = req.body;
 
@@ -641,6 +1025,14 @@ router.post("/recurring-payment", async (req: Request, res: Response) => {
       return;
     }
 
+    if (!canActFor(req.auth, body.userAddress)) {
+      res.status(403).json({
+        success: false,
+        error: "userAddress does not match the signed-in wallet",
+      });
+      return;
+    }
+
     // Validate permission metadata
     if (!body.chainId || !body.spendingToken || !body.spendingLimit || !body.spendingPeriod || !body.startTime) {
       res.status(400).json({
@@ -650,6 +1042,14 @@ router.post("/recurring-payment", async (req: Request, res: Response) => {
       return;
     }
 
+    if (!isSupportedChain(body.chainId)) {
+      res.status(400).json({
+        success: false,
+        error: `Unsupported chainId ${body.chainId}, supported: ${SUPPORTED_CHAIN_IDS.join(", ")}`,
+      });
+      return;
+    }
+
     if (!body.config || !body.config.token || !body.config.amount || !body.config.recipient) {
       res.status(400).json({
         success: false,
@@ -666,6 +1066,20 @@ router.post("/recurring-payment", async (req: Request, res: Response) => {
       return;
     }
 
+    // The signed delegation must match the metadata and cover one execution
+    const permission = verifyPermission("recurring-payment", body, {
+      token: body.config.token,
+      amountPerExecution: body.config.amount,
+    });
+
+    if (!permission.valid) {
+      res.status(400).json({
+        success: false,
+        error: permission.error,
+      });
+      return;
+    }
+
     // Set first execution to now (ready to execute immediately)
     const nextExecution = new Date();
 
@@ -673,7 +1087,7 @@ router.post("/recurring-payment", async (req: Request, res: Response) => {
       userAddress: body.userAddress.toLowerCase(),
       agentType: "recurring-payment",
       name: body.name || `Recurring Payment`,
-      permissionContext: body.permissionContext,
+      permissionContext: encryptPermissionContext(body.permissionContext),
       delegationManager: body.delegationManager,
       sessionKeyAddress: body.sessionKeyAddress.toLowerCase(),
       // Permission metadata
@@ -682,6 +1096,7 @@ router.post("/recurring-payment", async (req: Request, res: Response) => {
       spendingLimit: body.spendingLimit,
       spendingPeriod: body.spendingPeriod,
       startTime: body.startTime,
+      permissionExpiry: permission.terms.expiry ?? undefined,
       config: {
         recurringPayment: {
           token: body.config.token,
@@ -725,61 +1140,234 @@ router.post("/recurring-payment", async (req: Request, res: Response) => {
 });
 
 // ============================================
-// PATCH /agents/:id - Update agent (pause, resume, update config)
+// POST /agents/stop-loss - Create a new Stop-Loss agent
 // ============================================
-router.patch("/:id", async (req: Request, res: Response) => {
+router.post("/stop-loss", requireUser, async (req: Request, res: Response) => {
   try {
-    const body: UpdateAgentBody = req.body;
-    const agent = await Agent.findById(req.params.id);
+    const body: CreateStopLossAgentBody = req.body;
 
-    if (!agent) {
-      res.status(404).json({
+    // Validation
+    if (!body.userAddress || !body.permissionContext || !body.delegationManager || !body.sessionKeyAddress) {
+      res.status(400).json({
         success: false,
-        error: "Agent not found",
+        error: "Missing required fields: userAddress, permissionContext, delegationManager, sessionKeyAddress",
       });
       return;
     }
 
-    // Update allowed fields
-    if (body.name) agent.name = body.name;
-    if (body.status) {
-      // Validate status transitions
-      const validTransitions: Record<AgentStatus, AgentStatus[]> = {
-        active: ["paused", "cancelled"],
-        paused: ["active", "cancelled"],
-        completed: [],
-        failed: ["active", "cancelled"],
-        cancelled: [],
-      };
-
-      if (!validTransitions[agent.status].includes(body.status)) {
-        res.status(400).json({
-          success: false,
-          error: `Cannot transition from ${agent.status} to ${body.status}`,
-        });
-        return;
-      }
+    if (!canActFor(req.auth, body.userAddress)) {
+      res.status(403).json({
+        success: false,
+        error: "userAddress does not match the signed-in wallet",
+      });
+      return;
+    }
 
-      agent.status = body.status;
+    // Validate permission metadata
+    if (!body.chainId || !body.spendingToken || !body.spendingLimit || !body.spendingPeriod || !body.startTime) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required permission metadata: chainId, spendingToken, spendingLimit, spendingPeriod, startTime",
+      });
+      return;
     }
 
-    // Update config if provided
-    if (body.config && agent.config.dca) {
-      if (body.config.maxSlippage !== undefined) {
-        agent.config.dca.maxSlippage = body.config.maxSlippage;
-      }
-      if (body.config.feeTier !== undefined) {
-        agent.config.dca.feeTier = body.config.feeTier;
-      }
-      if (body.config.intervalSeconds !== undefined) {
-        agent.config.dca.intervalSeconds = body.config.intervalSeconds;
-      }
+    if (!isSupportedChain(body.chainId)) {
+      res.status(400).json({
+        success: false,
+        error: `Unsupported chainId ${body.chainId}, supported: ${SUPPORTED_CHAIN_IDS.join(", ")}`,
+      });
+      return;
     }
 
-    await agent.save();
+    if (!body.config || !body.config.tokenIn || !body.config.tokenOut || !body.config.triggerPrice || !body.config.expiryTimestamp) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required config fields: tokenIn, tokenOut, triggerPrice, expiryTimestamp",
+      });
+      return;
+    }
 
-    res.json({
-      success: true,
+    // Exactly one of a fixed amount or a percentage of the balance
+    if (!body.config.amountIn === !body.config.sellPercentage) {
+      res.status(400).json({
+        success: false,
+        error: "Provide either amountIn or sellPercentage",
+      });
+      return;
+    }
+
+    if (body.config.sellPercentage !== undefined && (body.config.sellPercentage < 1 || body.config.sellPercentage > 100)) {
+      res.status(400).json({
+        success: false,
+        error: "sellPercentage must be between 1 and 100",
+      });
+      return;
+    }
+
+    if (body.config.trailingDistance !== undefined && (body.config.trailingDistance <= 0 || body.config.trailingDistance >= 100)) {
+      res.status(400).json({
+        success: false,
+        error: "trailingDistance must be between 0 and 100 (exclusive)",
+      });
+      return;
+    }
+
+    if (body.config.maxSlippage !== undefined && (body.config.maxSlippage <= 0 || body.config.maxSlippage >= 100)) {
+      res.status(400).json({
+        success: false,
+        error: "maxSlippage must be between 0 and 100 (exclusive)",
+      });
+      return;
+    }
+
+    // The signed delegation must match the metadata and cover one execution
+    const permission = verifyPermission("stop-loss", body, {
+      token: body.config.tokenIn,
+      amountPerExecution: body.config.amountIn,
+    });
+
+    if (!permission.valid) {
+      res.status(400).json({
+        success: false,
+        error: permission.error,
+      });
+      return;
+    }
+
+    // Start watching the price immediately
+    const nextExecution = new Date();
+
+    const agent = new Agent({
+      userAddress: body.userAddress.toLowerCase(),
+      agentType: "stop-loss",
+      name: body.name || `Stop-Loss`,
+      permissionContext: encryptPermissionContext(body.permissionContext),
+      delegationManager: body.delegationManager,
+      sessionKeyAddress: body.sessionKeyAddress.toLowerCase(),
+      // Permission metadata
+      chainId: body.chainId,
+      spendingToken: body.spendingToken.toLowerCase(),
+      spendingLimit: body.spendingLimit,
+      spendingPeriod: body.spendingPeriod,
+      startTime: body.startTime,
+      permissionExpiry: permission.terms.expiry ?? undefined,
+      config: {
+        stopLoss: {
+          tokenIn: body.config.tokenIn,
+          tokenOut: body.config.tokenOut,
+          triggerPrice: body.config.triggerPrice,
+          amountIn: body.config.amountIn,
+          sellPercentage: body.config.sellPercentage,
+          trailingDistance: body.config.trailingDistance,
+          maxSlippage: body.config.maxSlippage || 1.0,
+          feeTier: body.config.feeTier || 3000,
+          expiryTimestamp: body.config.expiryTimestamp,
+        },
+      },
+      nextExecution,
+      maxExecutions: 1, // Stop-loss orders execute once
+      status: "active",
+      executionCount: 0,
+      executionLogs: [],
+    });
+
+    await agent.save();
+
+    console.log(`✅ Created Stop-Loss agent: ${agent._id} for user ${body.userAddress}`);
+    console.log(`   Trigger: ${body.config.triggerPrice}${body.config.trailingDistance ? ` (trailing ${body.config.trailingDistance}%)` : ""}`);
+
+    res.status(201).json({
+      success: true,
+      agent: {
+        id: agent._id,
+        userAddress: agent.userAddress,
+        agentType: agent.agentType,
+        name: agent.name,
+        status: agent.status,
+        nextExecution: agent.nextExecution,
+        config: agent.config,
+      },
+    });
+  } catch (error) {
+    console.error("Error creating Stop-Loss agent:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to create Stop-Loss agent",
+    });
+  }
+});
+
+// ============================================
+// PATCH /agents/:id - Update agent (pause, resume, update config)
+// ============================================
+router.patch("/:id", async (req: Request, res: Response) => {
+  try {
+    const body: UpdateAgentBody = req.body;
+    const agent = await Agent.findById(req.params.id);
+
+    if (!agent) {
+      res.status(404).json({
+        success: false,
+        error: "Agent not found",
+      });
+      return;
+    }
+
+    // Update allowed fields
+    if (body.name) agent.name = body.name;
+    if (body.status) {
+      // Validate status transitions
+      const validTransitions: Record<AgentStatus, AgentStatus[]> = {
+        active: ["paused", "cancelled"],
+        paused: ["active", "cancelled"],
+        completed: [],
+        failed: ["active", "cancelled"],
+        cancelled: [],
+      };
+
+      if (!validTransitions[agent.status].includes(body.status)) {
+        res.status(400).json({
+          success: false,
+          error: `Cannot transition from ${agent.status} to ${body.status}`,
+        });
+        return;
+      }
+
+      // Resumed automatically once the delegation is re-enabled on-chain
+      if (body.status === "active" && agent.delegationDisabledAt) {
+        res.status(400).json({
+          success: false,
+          error: "Delegation is disabled on-chain, re-enable it to resume this agent",
+        });
+        return;
+      }
+
+      agent.status = body.status;
+      agent.statusReason = undefined;
+
+      if (body.status === "active") {
+        resetFailures(agent);
+      }
+    }
+
+    // Update config if provided
+    if (body.config && agent.config.dca) {
+      if (body.config.maxSlippage !== undefined) {
+        agent.config.dca.maxSlippage = body.config.maxSlippage;
+      }
+      if (body.config.feeTier !== undefined) {
+        agent.config.dca.feeTier = body.config.feeTier;
+      }
+      if (body.config.intervalSeconds !== undefined) {
+        agent.config.dca.intervalSeconds = body.config.intervalSeconds;
+      }
+    }
+
+    await agent.save();
+
+    res.json({
+      success: true,
       agent: {
         id: agent._id,
         status: agent.status,
@@ -799,7 +1387,7 @@ router.patch("/:id", async (req: Request, res: Response) => {
 // ============================================
 // DELETE /agents/:id - Delete/cancel an agent
 // ============================================
-router.delete("/:id", async (req: Request, res: Response) => {
+router.delete("/:id", requireUser, async (req: Request, res: Response) => {
   try {
     const agent = await Agent.findById(req.params.id);
 
@@ -828,10 +1416,191 @@ router.delete("/:id", async (req: Request, res: Response) => {
   }
 });
 
+// ============================================
+// POST /agents/:id/reset - Resume a failed agent after its owner fixed the cause
+// ============================================
+router.post("/:id/reset", requireUser, async (req: Request, res: Response) => {
+  try {
+    const agent = await Agent.findById(req.params.id);
+
+    if (!agent) {
+      res.status(404).json({
+        success: false,
+        error: "Agent not found",
+      });
+      return;
+    }
+
+    if (agent.status !== "failed") {
+      res.status(400).json({
+        success: false,
+        error: `Only failed agents can be reset (status: ${agent.status})`,
+      });
+      return;
+    }
+
+    if (agent.delegationDisabledAt) {
+      res.status(400).json({
+        success: false,
+        error: "Delegation is disabled on-chain, re-enable it to resume this agent",
+      });
+      return;
+    }
+
+    agent.status = "active";
+    agent.statusReason = undefined;
+    agent.nextExecution = new Date();
+    resetFailures(agent);
+
+    await agent.save();
+
+    console.log(`🔄 Reset failed agent ${agent._id}`);
+
+    res.json({
+      success: true,
+      agent: {
+        id: agent._id,
+        status: agent.status,
+        nextExecution: agent.nextExecution,
+      },
+    });
+  } catch (error) {
+    console.error("Error resetting agent:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to reset agent",
+    });
+  }
+});
+
+// ============================================
+// POST /agents/:id/renew - Move an agent to a new delegation (expired, or a higher limit)
+// Keeps the execution history and running totals, the replaced delegation is kept in permissionHistory
+// ============================================
+router.post("/:id/renew", requireUser, async (req: Request, res: Response) => {
+  try {
+    const body: RenewAgentBody = req.body;
+    const agent = await Agent.findById(req.params.id).select("+permissionContext");
+
+    if (!agent) {
+      res.status(404).json({
+        success: false,
+        error: "Agent not found",
+      });
+      return;
+    }
+
+    if (!body.permissionContext || !body.delegationManager || !body.sessionKeyAddress) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required fields: permissionContext, delegationManager, sessionKeyAddress",
+      });
+      return;
+    }
+
+    if (!body.chainId || !body.spendingToken || !body.spendingLimit || !body.spendingPeriod || !body.startTime) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required permission metadata: chainId, spendingToken, spendingLimit, spendingPeriod, startTime",
+      });
+      return;
+    }
+
+    const isOneTimeOrder = agent.agentType === "limit-order" || agent.agentType === "stop-loss";
+    if (agent.status === "cancelled" || (isOneTimeOrder && agent.status === "completed")) {
+      res.status(400).json({
+        success: false,
+        error: `Cannot renew a ${agent.status} ${agent.agentType} agent`,
+      });
+      return;
+    }
+
+    if (agent.maxExecutions && agent.executionCount >= agent.maxExecutions) {
+      res.status(400).json({
+        success: false,
+        error: "Agent already reached maxExecutions",
+      });
+      return;
+    }
+
+    // The agent keeps its chain, session key and token - only the grant changes
+    if (
+      body.chainId !== agent.chainId ||
+      body.sessionKeyAddress.toLowerCase() !== agent.sessionKeyAddress ||
+      body.spendingToken.toLowerCase() !== agent.spendingToken
+    ) {
+      res.status(400).json({
+        success: false,
+        error: "New permission must be for the same chain, session key and token as the agent",
+      });
+      return;
+    }
+
+    const permission = verifyPermission(agent.agentType, { ...body, userAddress: agent.userAddress }, getAgentSpend(agent));
+
+    if (!permission.valid) {
+      res.status(400).json({
+        success: false,
+        error: permission.error,
+      });
+      return;
+    }
+
+    agent.permissionHistory.push({
+      permissionContext: agent.permissionContext,
+      delegationManager: agent.delegationManager,
+      spendingLimit: agent.spendingLimit,
+      spendingPeriod: agent.spendingPeriod,
+      startTime: agent.startTime,
+      permissionExpiry: agent.permissionExpiry,
+      replacedAt: new Date(),
+    });
+
+    agent.permissionContext = encryptPermissionContext(body.permissionContext);
+    agent.delegationManager = body.delegationManager;
+    agent.spendingLimit = body.spendingLimit;
+    agent.spendingPeriod = body.spendingPeriod;
+    agent.startTime = body.startTime;
+    agent.permissionExpiry = permission.terms.expiry ?? undefined;
+
+    // A fresh delegation clears anything that stopped the old one
+    agent.status = "active";
+    agent.statusReason = undefined;
+    agent.lastError = undefined;
+    agent.delegationDisabledAt = undefined;
+    agent.delegationDisabledTxHash = undefined;
+    agent.nextExecution = new Date(Math.max(Date.now(), body.startTime * 1000));
+    resetFailures(agent);
+
+    await agent.save();
+
+    console.log(`🔁 Renewed permission for agent ${agent._id} (${agent.permissionHistory.length} previous)`);
+
+    res.json({
+      success: true,
+      agent: {
+        id: agent._id,
+        status: agent.status,
+        spendingLimit: agent.spendingLimit,
+        spendingPeriod: agent.spendingPeriod,
+        startTime: agent.startTime,
+        permissionExpiry: agent.permissionExpiry,
+        nextExecution: agent.nextExecution,
+      },
+    });
+  } catch (error) {
+    console.error("Error renewing agent:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to renew agent",
+    });
+  }
+});
+
 // ============================================
 // POST /agents/:id/log - Add execution log entry
 // ============================================
-router.post("/:id/log", async (req: Request, res: Response) => {
+router.post("/:id/log", requireService, async (req: Request, res: Response) => {
   try {
     const agent = await Agent.findById(req.params.id);
 
@@ -843,26 +1612,127 @@ router.post("/:id/log", async (req: Request, res: Response) => {
       return;
     }
 
-    const { success, txHash, amountIn, amountOut, error } = req.body;
+    const { executionId, success, skipped, terminal, recovery, stranded, txHash, amountIn, amountOut, effectivePrice, gasUsed, error, errorCode } = req.body;
 
-    // Add log entry
-    agent.executionLogs.push({
+    const logEntry: ExecutionLog = {
+      executionId: executionId || txHash,
       timestamp: new Date(),
-      status: success ? "success" : "failed",
+      status: skipped ? "skipped" : success ? "success" : "failed",
+      skipReason: skipped,
+      recovery,
       txHash,
       amountIn,
       amountOut,
+      effectivePrice,
+      gasUsed,
       error,
-    });
+      errorCode,
+    };
+
+    // A replayed report is a no-op, a different report for the same execution is a conflict
+    // (legacy reports without an idempotency key are always recorded)
+    const existing = logEntry.executionId && findReportedExecution(agent.executionLogs, logEntry);
+    if (existing) {
+      respondToReplayedReport(res, agent, existing, logEntry);
+      return;
+    }
+
+    // The changes below are made in memory and applied together with the log by applyReport
+
+    // Recovery actions settle stranded tokens from an earlier execution and are not new executions
+    if (logEntry.recovery) {
+      if (success) {
+        agent.inFlight = undefined;
+
+        // A recovered swap completes the execution that stranded the tokens
+        if (recovery === "swap") {
+          addToCostBasis(agent, amountIn, amountOut);
+          if (agent.agentType === "limit-order" || agent.agentType === "stop-loss") {
+            agent.status = "completed";
+          }
+        }
+      }
+
+      const saved = await applyReport(res, agent, logEntry);
+      if (!saved) return;
+
+      console.log(`📊 Logged ${recovery} recovery for agent ${agent._id}: ${success ? "success" : "failed"}`);
+
+      res.json({
+        success: true,
+        executionCount: saved.executionCount,
+        nextExecution: saved.nextExecution,
+      });
+      return;
+    }
+
+    // Keep the latest failure for the dashboard, cleared by the next successful execution
+    if (success) {
+      agent.lastError = undefined;
+    } else if (errorCode) {
+      agent.lastError = { code: errorCode, message: error, timestamp: logEntry.timestamp };
+    }
+
+    // Track tokens left on the session key by a failure after the delegated transfer
+    if (!success && stranded?.token && stranded?.amount && stranded?.holder) {
+      agent.inFlight = {
+        token: stranded.token.toLowerCase(),
+        amount: stranded.amount,
+        holder: stranded.holder.toLowerCase(),
+        executionId: logEntry.executionId,
+        since: new Date(),
+      };
+      console.log(`⚠️ Agent ${agent._id} has ${stranded.amount} of ${stranded.token} stranded on ${stranded.holder}`);
+    }
+
+    // Skipped executions (e.g. quote outside slippage tolerance) moved no funds and are not counted as executions
+    if (logEntry.status === "skipped") {
+      if (skipped === "simulation") {
+        if (terminal) {
+          // The delegation can never be redeemed again - stop scheduling until the user acts
+          agent.status = "paused";
+          agent.statusReason = error;
+          console.log(`⏸️ Paused agent ${agent._id}: ${error}`);
+        } else if (PERIOD_WAIT_ERROR_CODES.has(errorCode)) {
+          // Allowance used up or period not started - wait for the next period
+          agent.nextExecution = nextPeriodStart(agent);
+        } else {
+          // May clear up (e.g. the user tops up their balance) - retry with backoff, give up eventually
+          recordFailure(agent, error);
+        }
+      } else if (agent.agentType === "dca" && agent.config.dca) {
+        // A skipped DCA buy skips its period, limit orders are re-checked by the next trigger run
+        agent.nextExecution = new Date(Date.now() + agent.config.dca.intervalSeconds * 1000);
+      }
+
+      const saved = await applyReport(res, agent, logEntry);
+      if (!saved) return;
+
+      console.log(`📊 Logged execution for agent ${agent._id}: skipped (${skipped})`);
+
+      res.json({
+        success: true,
+        executionCount: saved.executionCount,
+        nextExecution: saved.nextExecution,
+      });
+      return;
+    }
 
     // Update execution metadata
     agent.lastExecution = new Date();
-    agent.executionCount += 1;
+    agent.$inc("executionCount", 1);
 
-    // For DCA agents, schedule next execution
+    // For DCA agents, schedule next execution (after the interval, within the period allowance)
     if (agent.agentType === "dca" && agent.config.dca && success) {
-      const intervalMs = agent.config.dca.intervalSeconds * 1000;
-      agent.nextExecution = new Date(Date.now() + intervalMs);
+      agent.nextExecution = await scheduleNextExecution(
+        agent,
+        agent.config.dca.intervalSeconds,
+        agent.config.dca.amountPerExecution,
+        { txHash, amount: amountIn }
+      );
+
+      // Track totals for the average cost basis (only swaps with a decoded amountOut)
+      addToCostBasis(agent, amountIn, amountOut);
 
       // Check if max executions reached
       if (agent.maxExecutions && agent.executionCount >= agent.maxExecutions) {
@@ -870,15 +1740,19 @@ router.post("/:id/log", async (req: Request, res: Response) => {
       }
     }
 
-    // For limit orders, mark as completed after successful execution (one-time order)
-    if (agent.agentType === "limit-order" && success) {
+    // For limit and stop-loss orders, mark as completed after successful execution (one-time order)
+    if ((agent.agentType === "limit-order" || agent.agentType === "stop-loss") && success) {
       agent.status = "completed";
     }
 
     // For savings agents, schedule next execution and track total supplied
     if (agent.agentType === "savings" && agent.config.savings && success) {
-      const intervalMs = agent.config.savings.intervalSeconds * 1000;
-      agent.nextExecution = new Date(Date.now() + intervalMs);
+      agent.nextExecution = await scheduleNextExecution(
+        agent,
+        agent.config.savings.intervalSeconds,
+        agent.config.savings.amountPerExecution,
+        { txHash, amount: amountIn }
+      );
 
       // Update total supplied
       const currentTotal = BigInt(agent.config.savings.totalSupplied || "0");
@@ -893,8 +1767,12 @@ router.post("/:id/log", async (req: Request, res: Response) => {
 
     // For recurring payment agents, schedule next execution and track total paid
     if (agent.agentType === "recurring-payment" && agent.config.recurringPayment && success) {
-      const intervalMs = agent.config.recurringPayment.intervalSeconds * 1000;
-      agent.nextExecution = new Date(Date.now() + intervalMs);
+      agent.nextExecution = await scheduleNextExecution(
+        agent,
+        agent.config.recurringPayment.intervalSeconds,
+        agent.config.recurringPayment.amount,
+        { txHash, amount: amountIn }
+      );
 
       // Update total paid
       const currentTotal = BigInt(agent.config.recurringPayment.totalPaid || "0");
@@ -907,14 +1785,22 @@ router.post("/:id/log", async (req: Request, res: Response) => {
       }
     }
 
-    await agent.save();
+    // Retry failures with backoff, give up after too many in a row
+    if (success) {
+      resetFailures(agent);
+    } else {
+      recordFailure(agent, error);
+    }
+
+    const saved = await applyReport(res, agent, logEntry);
+    if (!saved) return;
 
     console.log(`📊 Logged execution for agent ${agent._id}: ${success ? "success" : "failed"}`);
 
     res.json({
       success: true,
-      executionCount: agent.executionCount,
-      nextExecution: agent.nextExecution,
+      executionCount: saved.executionCount,
+      nextExecution: saved.nextExecution,
     });
   } catch (error) {
     console.error("Error adding log:", error);
@@ -925,10 +1811,204 @@ router.post("/:id/log", async (req: Request, res: Response) => {
   }
 });
 
+// ============================================
+// POST /agents/:id/peak-price - Record a new highest price for a trailing stop-loss (from agent)
+// ============================================
+router.post("/:id/peak-price", requireService, async (req: Request, res: Response) => {
+  try {
+    const { price } = req.body;
+
+    if (!price || !(parseFloat(price) > 0)) {
+      res.status(400).json({
+        success: false,
+        error: "price must be a positive number",
+      });
+      return;
+    }
+
+    const agent = await Agent.findById(req.params.id);
+
+    if (!agent || !agent.config.stopLoss) {
+      res.status(404).json({
+        success: false,
+        error: "Stop-loss agent not found",
+      });
+      return;
+    }
+
+    // Only ever move the peak up
+    const currentPeak = parseFloat(agent.config.stopLoss.highestPrice || "0");
+    if (parseFloat(price) > currentPeak) {
+      agent.config.stopLoss.highestPrice = price;
+      await agent.save();
+    }
+
+    res.json({
+      success: true,
+      highestPrice: agent.config.stopLoss.highestPrice,
+    });
+  } catch (error) {
+    console.error("Error updating peak price:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to update peak price",
+    });
+  }
+});
+
+// ============================================
+// POST /agents/:id/claim - Atomically acquire the execution lease (from agent)
+// Succeeds only if the agent is active, has no stranded tokens awaiting recovery
+// and is not leased by another worker. An expired lease (crashed worker) can be claimed again.
+// ============================================
+router.post("/:id/claim", requireService, async (req: Request, res: Response) => {
+  try {
+    const body: ClaimAgentBody = req.body;
+
+    if (!body.workerId) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required field: workerId",
+      });
+      return;
+    }
+
+    const leaseSeconds = body.leaseSeconds && body.leaseSeconds > 0 ? body.leaseSeconds : DEFAULT_LEASE_SECONDS;
+    const now = new Date();
+
+    const filter: Record<string, unknown> = {
+      _id: req.params.id,
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+    };
+    if (body.recovery) {
+      // Stranded tokens are recovered even if the agent was paused or cancelled since
+      filter.inFlight = { $ne: null };
+    } else {
+      // A new execution could strand more tokens before the earlier ones are settled
+      filter.status = "active";
+      filter.inFlight = null;
+    }
+    if (body.dueOnly) filter.nextExecution = { $lte: now };
+
+    const agent = await Agent.findOneAndUpdate(
+      filter,
+      {
+        $set: {
+          lockedBy: body.workerId,
+          lockedUntil: new Date(now.getTime() + leaseSeconds * 1000),
+        },
+      },
+      { returnDocument: "after" }
+    ).select(AGENT_VIEWS.service); // The claiming worker needs the (encrypted) permissionContext
+
+    if (!agent) {
+      const exists = await Agent.exists({ _id: req.params.id });
+      res.status(exists ? 409 : 404).json({
+        success: false,
+        error: exists ? "Agent is not claimable (leased, inactive, not due, awaiting recovery or nothing to recover)" : "Agent not found",
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      agent,
+    });
+  } catch (error) {
+    console.error("Error claiming agent:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to claim agent",
+    });
+  }
+});
+
+// ============================================
+// POST /agents/:id/lease - Extend the execution lease (from agent)
+// Succeeds only while the worker still holds an unexpired lease, so a worker
+// whose lease ran out (and may have been claimed by another) stops executing.
+// ============================================
+router.post("/:id/lease", requireService, async (req: Request, res: Response) => {
+  try {
+    const body: ExtendLeaseBody = req.body;
+
+    if (!body.workerId) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required field: workerId",
+      });
+      return;
+    }
+
+    const leaseSeconds = body.leaseSeconds && body.leaseSeconds > 0 ? body.leaseSeconds : DEFAULT_LEASE_SECONDS;
+    const now = new Date();
+
+    const agent = await Agent.findOneAndUpdate(
+      { _id: req.params.id, lockedBy: body.workerId, lockedUntil: { $gt: now } },
+      { $set: { lockedUntil: new Date(now.getTime() + leaseSeconds * 1000) } },
+      { returnDocument: "after" }
+    ).select("lockedBy lockedUntil");
+
+    if (!agent) {
+      res.status(409).json({
+        success: false,
+        error: "Lease is not held by this worker",
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      lockedBy: agent.lockedBy,
+      lockedUntil: agent.lockedUntil,
+    });
+  } catch (error) {
+    console.error("Error extending lease:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to extend lease",
+    });
+  }
+});
+
+// ============================================
+// POST /agents/:id/release - Release the execution lease (from agent)
+// ============================================
+router.post("/:id/release", requireService, async (req: Request, res: Response) => {
+  try {
+    const { workerId } = req.body;
+
+    if (!workerId) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required field: workerId",
+      });
+      return;
+    }
+
+    // Only the lease holder can release it
+    const result = await Agent.updateOne(
+      { _id: req.params.id, lockedBy: workerId },
+      { $unset: { lockedBy: 1, lockedUntil: 1 } }
+    );
+
+    res.json({
+      success: true,
+      released: result.modifiedCount > 0,
+    });
+  } catch (error) {
+    console.error("Error releasing agent:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to release agent",
+    });
+  }
+});
+
 // ============================================
 // POST /agents/:id/execute - Manually trigger execution of an agent
 // ============================================
-router.post("/:id/execute", async (req: Request, res: Response) => {
+router.post("/:id/execute", requireUser, async (req: Request, res: Response) => {
   try {
     const agent = await Agent.findById(req.params.id);
 
@@ -955,7 +2035,7 @@ router.post("/:id/execute", async (req: Request, res: Response) => {
     // Call the agent service to execute
     const executeResponse = await fetch(`${agentServiceUrl}/execute`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: serviceHeaders(),
       body: JSON.stringify({
         agentId: agent._id.toString(),
         agentType: agent.agentType,
@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { Types } from "mongoose";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createSiweMessage } from "viem/siwe";
+import { OTHER_USER, SERVICE_TOKEN, USER, limitOrderAgent, startTestApi, type TestApi } from "../test/harness.js";
+
+describe("Authentication", () => {
+  let api: TestApi;
+
+  beforeEach(async () => {
+    api = await startTestApi();
+  });
+
+  afterEach(async () => {
+    await api.close();
+    mock.restoreAll();
+  });
+
+  // ============================================
+  // Sign-In-With-Ethereum
+  // ============================================
+
+  describe("Sign in with Ethereum", () => {
+    const wallet = privateKeyToAccount(generatePrivateKey());
+
+    async function signedMessage(nonce: string, domain = "localhost:3000") {
+      const message = createSiweMessage({
+        address: wallet.address,
+        chainId: 84532,
+        domain,
+        nonce,
+        uri: `http://${domain}`,
+        version: "1",
+      });
+      return { message, signature: await wallet.signMessage({ message }) };
+    }
+
+    async function getNonce(): Promise<string> {
+      return (await api.request("GET", "/api/auth/nonce")).body.nonce;
+    }
+
+    it("A signed message starts a session for the wallet", async () => {
+      const verified = await api.request("POST", "/api/auth/verify", { body: await signedMessage(await getNonce()) });
+
+      assert.equal(verified.status, 200);
+      assert.equal(verified.body.address, wallet.address.toLowerCase());
+
+      const session = await api.request("GET", "/api/auth/session", { token: verified.body.token });
+      assert.equal(session.status, 200);
+      assert.equal(session.body.address, wallet.address.toLowerCase());
+    });
+
+    it("A message issued for another domain is rejected", async () => {
+      const verified = await api.request("POST", "/api/auth/verify", {
+        body: await signedMessage(await getNonce(), "evil.example"),
+      });
+
+      assert.equal(verified.status, 401);
+      assert.equal(api.sessions.docs.length, 0);
+    });
+
+    it("A nonce can only be used once", async () => {
+      const body = await signedMessage(await getNonce());
+
+      assert.equal((await api.request("POST", "/api/auth/verify", { body })).status, 200);
+
+      const replayed = await api.request("POST", "/api/auth/verify", { body });
+      assert.equal(replayed.status, 401);
+      assert.equal(replayed.body.error, "Unknown or expired nonce");
+    });
+
+    it("An expired nonce is rejected", async () => {
+      api.nonces.insert({ nonce: "expirednonce123", expiresAt: new Date(Date.now() - 1000) });
+
+      const verified = await api.request("POST", "/api/auth/verify", { body: await signedMessage("expirednonce123") });
+
+      assert.equal(verified.status, 401);
+      assert.equal(verified.body.error, "Unknown or expired nonce");
+    });
+
+    it("An expired session is not accepted", async () => {
+      const token = api.signIn(USER, new Date(Date.now() - 1000));
+
+      const session = await api.request("GET", "/api/auth/session", { token });
+
+      assert.equal(session.status, 401);
+    });
+
+    it("Signing out ends the session", async () => {
+      const token = api.signIn(USER);
+
+      assert.equal((await api.request("POST", "/api/auth/logout", { token })).status, 200);
+      assert.equal((await api.request("GET", "/api/auth/session", { token })).status, 401);
+    });
+  });
+
+  // ============================================
+  // Service credentials
+  // ============================================
+
+  describe("Service credentials", () => {
+    it("Service routes require the service token", async () => {
+      assert.equal((await api.request("GET", "/api/agents/due")).status, 401);
+      assert.equal((await api.request("GET", "/api/agents/due", { token: api.signIn(USER) })).status, 401);
+      assert.equal((await api.request("GET", "/api/agents/due", { token: "not-the-service-token" })).status, 401);
+      assert.equal((await api.request("GET", "/api/agents/due", { token: SERVICE_TOKEN })).status, 200);
+    });
+
+    it("Owners can't report executions for their own agents", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+
+      const response = await api.request("POST", `/api/agents/${id}/log`, {
+        token: api.signIn(USER),
+        body: { executionId: "forged", success: true, txHash: "0x01", amountIn: "1000000" },
+      });
+
+      assert.equal(response.status, 401);
+      assert.equal(api.agents.get(id)?.executionCount, 0);
+    });
+  });
+
+  // ============================================
+  // Agent ownership (router.param("id"))
+  // ============================================
+
+  describe("Agent ownership", () => {
+    it("Only the owner and the agent service can read an agent", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+
+      assert.equal((await api.request("GET", `/api/agents/${id}`)).status, 401);
+      assert.equal((await api.request("GET", `/api/agents/${id}`, { token: api.signIn(OTHER_USER) })).status, 403);
+      assert.equal((await api.request("GET", `/api/agents/${id}`, { token: api.signIn(USER) })).status, 200);
+      assert.equal((await api.request("GET", `/api/agents/${id}`, { token: SERVICE_TOKEN })).status, 200);
+    });
+
+    it("Another wallet can't pause or cancel an agent", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+      const token = api.signIn(OTHER_USER);
+
+      assert.equal((await api.request("PATCH", `/api/agents/${id}`, { token, body: { status: "paused" } })).status, 403);
+      assert.equal((await api.request("DELETE", `/api/agents/${id}`, { token })).status, 403);
+      assert.equal(api.agents.get(id)?.status, "active");
+    });
+
+    it("The owner can pause their agent", async () => {
+      const id = api.agents.insert(limitOrderAgent()).id;
+
+      const response = await api.request("PATCH", `/api/agents/${id}`, { token: api.signIn(USER), body: { status: "paused" } });
+
+      assert.equal(response.status, 200);
+      assert.equal(api.agents.get(id)?.status, "paused");
+    });
+
+    it("An unknown agent is not found", async () => {
+      const response = await api.request("GET", `/api/agents/${new Types.ObjectId()}`, { token: api.signIn(USER) });
+
+      assert.equal(response.status, 404);
+    });
+  });
+});
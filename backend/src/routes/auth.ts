@@ -0,0 +1,159 @@
+import { randomBytes } from "crypto";
+import { Router, Request, Response } from "express";
+import { createPublicClient, http, type Hex } from "viem";
+import { generateSiweNonce, parseSiweMessage, verifySiweMessage } from "viem/siwe";
+import { CHAINS, isSupportedChain } from "../config/chains.js";
+import { AuthNonce, Session } from "../models/Session.js";
+import { hashToken, requireUser } from "../middleware/auth.js";
+
+const router = Router();
+
+// Nonces must be signed within 10 minutes
+const NONCE_TTL_SECONDS = 10 * 60;
+
+// Sessions last 24 hours
+const SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+// Host the SIWE message must be issued for (the web app)
+const SIWE_DOMAIN = process.env.SIWE_DOMAIN || "localhost:3000";
+
+interface VerifyBody {
+  message: string;
+  signature: Hex;
+}
+
+// ============================================
+// GET /auth/nonce - Get a single-use nonce for a SIWE message
+// ============================================
+router.get("/nonce", async (req: Request, res: Response) => {
+  try {
+    const nonce = generateSiweNonce();
+
+    await AuthNonce.create({
+      nonce,
+      expiresAt: new Date(Date.now() + NONCE_TTL_SECONDS * 1000),
+    });
+
+    res.json({
+      success: true,
+      nonce,
+    });
+  } catch (error) {
+    console.error("Error creating nonce:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to create nonce",
+    });
+  }
+});
+
+// ============================================
+// POST /auth/verify - Verify a signed SIWE message and start a session
+// Supports smart account signatures (ERC-1271 / ERC-6492) via the chain's RPC
+// ============================================
+router.post("/verify", async (req: Request, res: Response) => {
+  try {
+    const body: VerifyBody = req.body;
+
+    if (!body.message || !body.signature) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required fields: message, signature",
+      });
+      return;
+    }
+
+    const fields = parseSiweMessage(body.message);
+
+    if (!fields.address || !fields.nonce || !fields.chainId || !isSupportedChain(fields.chainId)) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid SIWE message",
+      });
+      return;
+    }
+
+    // Each nonce can be used once
+    const nonce = await AuthNonce.findOneAndDelete({ nonce: fields.nonce, expiresAt: { $gt: new Date() } });
+
+    if (!nonce) {
+      res.status(401).json({
+        success: false,
+        error: "Unknown or expired nonce",
+      });
+      return;
+    }
+
+    const publicClient = createPublicClient({ transport: http(CHAINS[fields.chainId].rpcUrl) });
+
+    const valid = await verifySiweMessage(publicClient, {
+      message: body.message,
+      signature: body.signature,
+      domain: SIWE_DOMAIN,
+      nonce: fields.nonce,
+    });
+
+    if (!valid) {
+      res.status(401).json({
+        success: false,
+        error: "Invalid signature",
+      });
+      return;
+    }
+
+    const token = randomBytes(32).toString("hex");
+    const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+
+    await Session.create({
+      tokenHash: hashToken(token),
+      address: fields.address.toLowerCase(),
+      chainId: fields.chainId,
+      expiresAt,
+    });
+
+    res.json({
+      success: true,
+      token,
+      address: fields.address.toLowerCase(),
+      expiresAt,
+    });
+  } catch (error) {
+    console.error("Error verifying SIWE message:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to verify sign-in",
+    });
+  }
+});
+
+// ============================================
+// GET /auth/session - Get the signed-in address
+// ============================================
+router.get("/session", requireUser, (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    address: req.auth?.role === "user" ? req.auth.address : null,
+  });
+});
+
+// ============================================
+// POST /auth/logout - End the current session
+// ============================================
+router.post("/logout", requireUser, async (req: Request, res: Response) => {
+  try {
+    const token = req.headers.authorization!.slice("Bearer ".length).trim();
+    await Session.deleteOne({ tokenHash: hashToken(token) });
+
+    res.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error("Error ending session:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to sign out",
+    });
+  }
+});
+
+export default router;
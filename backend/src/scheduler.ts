@@ -7,7 +7,7 @@
 
 import "dotenv/config";
 import { connectDatabase } from "./config/database.js";
-import { startScheduler, processDueAgents, getExecutionStats } from "./services/scheduler.js";
+import { startScheduler, runScheduledTasks, getExecutionStats } from "./services/scheduler.js";
 
 async function main() {
   console.log("🤖 Starting Delegation Agents Scheduler");
@@ -28,7 +28,7 @@ async function main() {
 
     // Run immediately once
     console.log("\n🔄 Running initial check...");
-    await processDueAgents();
+    await runScheduledTasks();
 
     // Start scheduler (every minute for testing)
     // Production: use "0 * * * *" for hourly
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { Agent, type IAgent } from "../models/Agent.js";
+import { limitOrderAgent } from "../test/harness.js";
+import { getSpendingPeriod, nextPeriodStart, scheduleNextExecution, summarizeSpending } from "./allowance.js";
+
+const START = 1700000000;
+const DAY = 86400;
+const TX_HASH = "0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060";
+
+function agent(overrides: Record<string, unknown> = {}): IAgent {
+  return new Agent(limitOrderAgent(overrides));
+}
+
+function at(seconds: number): void {
+  mock.timers.reset();
+  mock.timers.enable({ apis: ["Date"], now: seconds * 1000 });
+}
+
+// Envio's answer to the period redemptions query
+function indexed(redemptions: Array<{ txHash: string; timestamp: number; executedAmount: string | null }>): void {
+  mock.method(globalThis, "fetch", async () =>
+    Response.json({ data: { Redemption: redemptions.map((redemption) => ({ ...redemption, spendingLimit: "1000000" })) } })
+  );
+}
+
+describe("Spending periods", () => {
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+
+  it("A period runs from its start up to, but not including, the next one", () => {
+    assert.deepEqual(getSpendingPeriod(agent(), START), { start: START, end: START + DAY });
+    assert.deepEqual(getSpendingPeriod(agent(), START + DAY - 1), { start: START, end: START + DAY });
+    assert.deepEqual(getSpendingPeriod(agent(), START + DAY), { start: START + DAY, end: START + 2 * DAY });
+  });
+
+  it("Times before the permission starts fall in its first period", () => {
+    assert.deepEqual(getSpendingPeriod(agent(), START - 1), { start: START, end: START + DAY });
+  });
+
+  it("The next period starts at the following boundary, or at startTime before the permission starts", () => {
+    at(START + 3 * DAY + 10);
+    assert.equal(nextPeriodStart(agent()).getTime(), (START + 4 * DAY) * 1000);
+
+    at(START - 10);
+    assert.equal(nextPeriodStart(agent()).getTime(), START * 1000);
+  });
+
+  it("Redemptions are summed per period", () => {
+    at(START + DAY + 10);
+
+    const summary = summarizeSpending(
+      agent(),
+      [
+        { timestamp: START + 5, txHash: "0x01", executedAmount: 400000n },
+        { timestamp: START + DAY - 1, txHash: "0x02", executedAmount: null },
+        { timestamp: START + DAY, txHash: "0x03", executedAmount: null },
+      ],
+      new Map([["0x02", 100000n]])
+    );
+
+    // 0x02 is counted as reported, 0x03 has no known amount so it counts as the whole limit
+    assert.equal(summary.totalSpent, 1500000n);
+    assert.deepEqual(
+      summary.periods.map((period) => [period.start, period.spent, period.redemptionCount]),
+      [
+        [START, "500000", 2],
+        [START + DAY, "1000000", 1],
+      ]
+    );
+    assert.equal(summary.currentPeriod.start, START + DAY);
+    assert.equal(summary.currentPeriod.spent, "1000000");
+  });
+});
+
+describe("Next execution scheduling", () => {
+  const now = START + 10 * DAY + 100;
+
+  beforeEach(() => {
+    at(now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+
+  it("Runs after the interval while the period has allowance left", async () => {
+    indexed([{ txHash: TX_HASH, timestamp: now - 50, executedAmount: "500000" }]);
+
+    const next = await scheduleNextExecution(agent(), 3600, "500000");
+
+    assert.equal(next.getTime(), (now + 3600) * 1000);
+  });
+
+  it("Waits for the period boundary once the allowance is used up", async () => {
+    indexed([{ txHash: TX_HASH, timestamp: now - 50, executedAmount: "600000" }]);
+
+    const next = await scheduleNextExecution(agent(), 3600, "500000");
+
+    assert.equal(next.getTime(), (START + 11 * DAY) * 1000);
+  });
+
+  it("Counts the execution being reported when it is not indexed yet", async () => {
+    indexed([]);
+
+    const pending = await scheduleNextExecution(agent(), 3600, "500000", { txHash: TX_HASH, amount: "600000" });
+    assert.equal(pending.getTime(), (START + 11 * DAY) * 1000);
+
+    indexed([{ txHash: TX_HASH, timestamp: now - 50, executedAmount: "400000" }]);
+
+    const counted = await scheduleNextExecution(agent(), 3600, "500000", { txHash: TX_HASH, amount: "600000" });
+    assert.equal(counted.getTime(), (now + 3600) * 1000);
+  });
+
+  it("Falls back to the execution logs when the indexer is unavailable", async () => {
+    mock.method(globalThis, "fetch", async () => {
+      throw new Error("connect ECONNREFUSED");
+    });
+    mock.method(console, "error", () => {});
+    const logs = [
+      { executionId: "run-1", status: "success", txHash: TX_HASH, amountIn: "600000", timestamp: new Date((now - 50) * 1000) },
+      // Spent in the previous period
+      { executionId: "run-0", status: "success", txHash: "0x01", amountIn: "900000", timestamp: new Date((now - DAY) * 1000) },
+    ];
+
+    const next = await scheduleNextExecution(agent({ executionLogs: logs }), 3600, "400000");
+
+    assert.equal(next.getTime(), (now + 3600) * 1000);
+    assert.equal((await scheduleNextExecution(agent({ executionLogs: logs }), 3600, "500000")).getTime(), (START + 11 * DAY) * 1000);
+  });
+
+  it("Doesn't look up spending when the interval already reaches the next period", async () => {
+    const fetch = mock.method(globalThis, "fetch", async () => Response.json({ data: { Redemption: [] } }));
+
+    const next = await scheduleNextExecution(agent(), 2 * DAY, "1000000");
+
+    assert.equal(next.getTime(), (now + 2 * DAY) * 1000);
+    assert.equal(fetch.mock.callCount(), 0);
+  });
+});
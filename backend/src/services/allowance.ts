@@ -0,0 +1,199 @@
+/**
+ * Period-aware Scheduling
+ * A permission allows spendingLimit per spendingPeriod, counted from startTime.
+ * Executions are scheduled so they never land in a period whose allowance is
+ * already used up - they wait for the period boundary instead.
+ */
+
+import { ExecutionLog, IAgent } from "../models/Agent.js";
+import { fetchRedemptionsSince, type OnChainRedemption } from "./envio.js";
+
+export interface SpendingPeriod {
+  start: number; // Unix seconds
+  end: number; // Unix seconds (start of the next period)
+}
+
+export interface PeriodSpending extends SpendingPeriod {
+  spent: string;
+  redemptionCount: number;
+}
+
+export interface SpendingSummary {
+  totalSpent: bigint;
+  currentPeriod: PeriodSpending;
+  // Periods with at least one redemption, oldest first
+  periods: PeriodSpending[];
+}
+
+/**
+ * The spending period containing a timestamp (the first period before startTime)
+ */
+export function getSpendingPeriod(agent: IAgent, at: number): SpendingPeriod {
+  if (at < agent.startTime) {
+    return { start: agent.startTime, end: agent.startTime + agent.spendingPeriod };
+  }
+
+  const periodsElapsed = Math.floor((at - agent.startTime) / agent.spendingPeriod);
+  const start = agent.startTime + periodsElapsed * agent.spendingPeriod;
+
+  return { start, end: start + agent.spendingPeriod };
+}
+
+/**
+ * Start of the permission's next spending period (its allowance resets then)
+ */
+export function nextPeriodStart(agent: IAgent): Date {
+  const now = Math.floor(Date.now() / 1000);
+  if (now < agent.startTime) return new Date(agent.startTime * 1000);
+
+  return new Date(getSpendingPeriod(agent, now).end * 1000);
+}
+
+/**
+ * Amounts the agent reported for its successful executions, keyed by txHash
+ * Covers executions the indexer cannot decode (calls other than transfers, approvals and supplies)
+ */
+export function getReportedAmounts(logs: ExecutionLog[]): Map<string, bigint> {
+  const amounts = new Map<string, bigint>();
+
+  for (const log of logs) {
+    if (log.status === "success" && !log.recovery && log.txHash && log.amountIn) {
+      amounts.set(log.txHash.toLowerCase(), BigInt(log.amountIn));
+    }
+  }
+
+  return amounts;
+}
+
+/**
+ * Amount a redemption moved: decoded by the indexer, else as reported by the agent,
+ * else assume it used the whole period limit
+ */
+function getRedemptionAmount(
+  agent: IAgent,
+  redemption: { txHash: string; executedAmount: bigint | null },
+  reportedAmounts: Map<string, bigint>
+): bigint {
+  return redemption.executedAmount ?? reportedAmounts.get(redemption.txHash.toLowerCase()) ?? BigInt(agent.spendingLimit);
+}
+
+/**
+ * Lifetime and per-period spending of an agent's delegation
+ */
+export function summarizeSpending(
+  agent: IAgent,
+  redemptions: Array<Pick<OnChainRedemption, "timestamp" | "txHash" | "executedAmount">>,
+  reportedAmounts: Map<string, bigint>
+): SpendingSummary {
+  const periods = new Map<number, { period: SpendingPeriod; spent: bigint; redemptionCount: number }>();
+  let totalSpent = 0n;
+
+  for (const redemption of redemptions) {
+    const amount = getRedemptionAmount(agent, redemption, reportedAmounts);
+    const period = getSpendingPeriod(agent, redemption.timestamp);
+    const entry = periods.get(period.start) ?? { period, spent: 0n, redemptionCount: 0 };
+
+    entry.spent += amount;
+    entry.redemptionCount += 1;
+    periods.set(period.start, entry);
+    totalSpent += amount;
+  }
+
+  const toPeriodSpending = (entry: { period: SpendingPeriod; spent: bigint; redemptionCount: number }): PeriodSpending => ({
+    ...entry.period,
+    spent: entry.spent.toString(),
+    redemptionCount: entry.redemptionCount,
+  });
+
+  const current = getSpendingPeriod(agent, Math.floor(Date.now() / 1000));
+  const currentEntry = periods.get(current.start) ?? { period: current, spent: 0n, redemptionCount: 0 };
+
+  return {
+    totalSpent,
+    currentPeriod: toPeriodSpending(currentEntry),
+    periods: [...periods.values()].sort((a, b) => a.period.start - b.period.start).map(toPeriodSpending),
+  };
+}
+
+/**
+ * Amount spent in the current period
+ * On-chain redemptions from Envio are the source of truth, with the agent's own
+ * execution logs as a fallback. The execution being reported may not be indexed
+ * yet, so it is added unless Envio already has its transaction.
+ */
+async function getSpentInPeriod(
+  agent: IAgent,
+  period: SpendingPeriod,
+  latest?: { txHash?: string; amount?: string }
+): Promise<bigint> {
+  const redemptions = await fetchRedemptionsSince({
+    chainId: agent.chainId,
+    delegate: agent.sessionKeyAddress,
+    delegator: agent.userAddress,
+    spendingToken: agent.spendingToken,
+    spendingPeriod: agent.spendingPeriod,
+    startTime: agent.startTime,
+    since: period.start,
+  });
+
+  const reportedAmounts = getReportedAmounts(agent.executionLogs);
+  let spent: bigint;
+  let counted: string[];
+
+  if (redemptions) {
+    spent = redemptions.reduce(
+      (total, redemption) =>
+        total +
+        getRedemptionAmount(
+          agent,
+          { txHash: redemption.txHash, executedAmount: redemption.executedAmount ? BigInt(redemption.executedAmount) : null },
+          reportedAmounts
+        ),
+      0n
+    );
+    counted = redemptions.map((redemption) => redemption.txHash.toLowerCase());
+  } else {
+    const logs = agent.executionLogs.filter(
+      (log) => log.status === "success" && !log.recovery && log.amountIn && log.timestamp.getTime() >= period.start * 1000
+    );
+    spent = logs.reduce((total, log) => total + BigInt(log.amountIn!), 0n);
+    counted = logs.flatMap((log) => (log.txHash ? [log.txHash.toLowerCase()] : []));
+  }
+
+  if (latest?.amount && !(latest.txHash && counted.includes(latest.txHash.toLowerCase()))) {
+    spent += BigInt(latest.amount);
+  }
+
+  return spent;
+}
+
+/**
+ * Schedule the next execution after a successful one
+ * Runs after intervalSeconds, unless that lands in the current period and the
+ * remaining allowance cannot cover amountPerExecution - then at the next period start.
+ */
+export async function scheduleNextExecution(
+  agent: IAgent,
+  intervalSeconds: number,
+  amountPerExecution: string,
+  latest?: { txHash?: string; amount?: string }
+): Promise<Date> {
+  const now = Math.floor(Date.now() / 1000);
+  const next = Math.max(now + intervalSeconds, agent.startTime);
+  const period = getSpendingPeriod(agent, now);
+
+  // The allowance resets before the next run
+  if (next >= period.end) {
+    return new Date(next * 1000);
+  }
+
+  const spent = await getSpentInPeriod(agent, period, latest);
+  const remaining = BigInt(agent.spendingLimit) - spent;
+
+  if (remaining < BigInt(amountPerExecution)) {
+    console.log(`⏳ Agent ${agent._id} used its allowance for this period, next run at the period start`);
+    return new Date(period.end * 1000);
+  }
+
+  return new Date(next * 1000);
+}
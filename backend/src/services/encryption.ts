@@ -0,0 +1,71 @@
+/**
+ * Permission Context Encryption
+ * The signed delegation in permissionContext can be redeemed by the session key,
+ * so it is stored encrypted. The backend only holds the agent service's public
+ * key: it can encrypt new permissions but never read stored ones back.
+ *
+ * Format: enc:v1:<wrapped key>:<iv>:<auth tag>:<ciphertext> (base64 parts)
+ * - a fresh AES-256-GCM key encrypts the context
+ * - RSA-OAEP (SHA-256) with the agent service's public key wraps that key
+ *
+ * Generate a key pair with:
+ *   openssl genpkey -algorithm RSA -pkeyopt rsa_keygen_bits:3072 -out permission-context.pem
+ *   openssl pkey -in permission-context.pem -pubout -out permission-context.pub.pem
+ */
+
+import { constants, createCipheriv, publicEncrypt, randomBytes } from "crypto";
+import { Agent } from "../models/Agent.js";
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+// PEM from the environment (newlines may be escaped as \n)
+const PUBLIC_KEY = process.env.PERMISSION_CONTEXT_PUBLIC_KEY?.replace(/\\n/g, "\n");
+
+/**
+ * Encrypt a permission context for the agent service
+ */
+export function encryptPermissionContext(permissionContext: string): string {
+  if (!PUBLIC_KEY) {
+    throw new Error("PERMISSION_CONTEXT_PUBLIC_KEY not set - refusing to store permission context unencrypted");
+  }
+
+  const key = randomBytes(32);
+  const iv = randomBytes(12);
+
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(permissionContext, "utf8"), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  const wrappedKey = publicEncrypt(
+    { key: PUBLIC_KEY, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: "sha256" },
+    key
+  );
+
+  return ENCRYPTED_PREFIX + [wrappedKey, iv, authTag, ciphertext].map((part) => part.toString("base64")).join(":");
+}
+
+/**
+ * Encrypt permission contexts stored before encryption was introduced
+ * Returns the number of agents migrated
+ */
+export async function encryptStoredPermissionContexts(): Promise<number> {
+  if (!PUBLIC_KEY) {
+    console.warn("⚠️ PERMISSION_CONTEXT_PUBLIC_KEY not set - agents cannot be created");
+    return 0;
+  }
+
+  const agents = await Agent.find({ permissionContext: { $not: /^enc:v1:/ } }).select("_id +permissionContext");
+
+  for (const agent of agents) {
+    await Agent.updateOne(
+      { _id: agent._id },
+      { $set: { permissionContext: encryptPermissionContext(agent.permissionContext) } }
+    );
+  }
+
+  if (agents.length > 0) {
+    console.log(`🔐 Encrypted ${agents.length} stored permission contexts`);
+  }
+
+  return agents.length;
+}
@@ -19,6 +19,8 @@ interface EnvioRedemption {
   spendingPeriod: string | null;
   spendingStartDate: string | null;
   expiresAt: string | null;
+  executedToken: string | null;
+  executedAmount: string | null;
   timestamp: string;
   txHash: string;
   blockNumber: string;
@@ -34,6 +36,30 @@ interface EnvioQueryResult {
   errors?: Array<{ message: string }>;
 }
 
+/**
+ * Delegation that was disabled on-chain (and possibly re-enabled since)
+ */
+export interface EnvioDelegationStatus {
+  id: string;
+  chainId: number;
+  delegate: string;
+  delegator: string;
+  spendingToken: string | null;
+  spendingPeriod: string | null;
+  spendingStartDate: string | null;
+  disabled: boolean;
+  disabledAt: string | null;
+  disabledTxHash: string | null;
+  enabledAt: string | null;
+}
+
+interface EnvioDelegationQueryResult {
+  data?: {
+    Delegation?: EnvioDelegationStatus[];
+  };
+  errors?: Array<{ message: string }>;
+}
+
 /**
  * Create a composite key for matching on-chain delegations with off-chain agents
  * Key: {chainId}-{delegate}-{delegator}-{spendingToken}-{spendingPeriod}-{spendingStartDate}
@@ -56,19 +82,25 @@ export function createDelegationKey(params: {
   ].join("-");
 }
 
+/**
+ * A redemption with the amount its execution moved
+ * executedAmount is null when the indexer could not decode the execution
+ */
+export interface OnChainRedemption {
+  timestamp: number;
+  txHash: string;
+  blockNumber: string;
+  executedAmount: bigint | null;
+}
+
 /**
  * Aggregated on-chain data for a delegation
  */
 export interface OnChainDelegationData {
   redemptionCount: number;
-  totalSpent: bigint; // spendingLimit * redemptionCount (each redemption = 1 period's worth)
   lastRedemptionAt: number | null;
   lastTxHash: string | null;
-  redemptions: Array<{
-    timestamp: number;
-    txHash: string;
-    blockNumber: string;
-  }>;
+  redemptions: OnChainRedemption[];
 }
 
 /**
@@ -94,6 +126,8 @@ export async function fetchRedemptionsForDelegator(
         spendingPeriod
         spendingStartDate
         expiresAt
+        executedToken
+        executedAmount
         timestamp
         txHash
         blockNumber
@@ -153,6 +187,8 @@ export async function fetchRedemptionsForRedeemer(
         spendingPeriod
         spendingStartDate
         expiresAt
+        executedToken
+        executedAmount
         timestamp
         txHash
         blockNumber
@@ -221,17 +257,17 @@ export async function buildOnChainDataMap(
 
     const existing = map.get(key);
     const timestamp = parseInt(redemption.timestamp);
-    const spendingLimit = BigInt(redemption.spendingLimit);
+    const onChainRedemption: OnChainRedemption = {
+      timestamp,
+      txHash: redemption.txHash,
+      blockNumber: redemption.blockNumber,
+      executedAmount: redemption.executedAmount ? BigInt(redemption.executedAmount) : null,
+    };
 
     if (existing) {
       // Add to existing aggregation
       existing.redemptionCount += 1;
-      existing.totalSpent += spendingLimit;
-      existing.redemptions.push({
-        timestamp,
-        txHash: redemption.txHash,
-        blockNumber: redemption.blockNumber,
-      });
+      existing.redemptions.push(onChainRedemption);
 
       // Update last redemption if this one is newer
       if (!existing.lastRedemptionAt || timestamp > existing.lastRedemptionAt) {
@@ -242,16 +278,9 @@ export async function buildOnChainDataMap(
       // Create new aggregation
       map.set(key, {
         redemptionCount: 1,
-        totalSpent: spendingLimit,
         lastRedemptionAt: timestamp,
         lastTxHash: redemption.txHash,
-        redemptions: [
-          {
-            timestamp,
-            txHash: redemption.txHash,
-            blockNumber: redemption.blockNumber,
-          },
-        ],
+        redemptions: [onChainRedemption],
       });
     }
   }
@@ -274,3 +303,142 @@ export async function getOnChainDataForDelegation(params: {
   const key = createDelegationKey(params);
   return map.get(key) || null;
 }
+
+/**
+ * Fetch every delegation that has been disabled on-chain
+ * Includes re-enabled ones (disabled = false) so paused agents can be resumed
+ */
+export async function fetchDisabledDelegations(): Promise<EnvioDelegationStatus[]> {
+  const query = `
+    query GetDisabledDelegations {
+      Delegation(where: { disabledAt: { _is_null: false } }) {
+        id
+        chainId
+        delegate
+        delegator
+        spendingToken
+        spendingPeriod
+        spendingStartDate
+        disabled
+        disabledAt
+        disabledTxHash
+        enabledAt
+      }
+    }
+  `;
+
+  try {
+    const response = await fetch(ENVIO_GRAPHQL_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ query }),
+    });
+
+    const result = (await response.json()) as EnvioDelegationQueryResult;
+
+    if (result.errors) {
+      console.error("Envio GraphQL errors:", result.errors);
+      return [];
+    }
+
+    return result.data?.Delegation || [];
+  } catch (error) {
+    console.error("Failed to fetch disabled delegations from Envio:", error);
+    return [];
+  }
+}
+
+/**
+ * Redemption of a delegation within a spending period
+ */
+export interface EnvioPeriodRedemption {
+  txHash: string;
+  timestamp: string;
+  executedAmount: string | null;
+  spendingLimit: string | null;
+}
+
+interface EnvioPeriodQueryResult {
+  data?: {
+    Redemption?: EnvioPeriodRedemption[];
+  };
+  errors?: Array<{ message: string }>;
+}
+
+/**
+ * Fetch a delegation's redemptions at or after a timestamp (e.g. the current period start)
+ * Returns null when Envio is unavailable, so callers can fall back to off-chain data
+ */
+export async function fetchRedemptionsSince(params: {
+  chainId: number;
+  delegate: string;
+  delegator: string;
+  spendingToken: string;
+  spendingPeriod: number;
+  startTime: number;
+  since: number;
+}): Promise<EnvioPeriodRedemption[] | null> {
+  const query = `
+    query GetRedemptionsSince(
+      $chainId: Int!
+      $delegate: String!
+      $delegator: String!
+      $spendingToken: String!
+      $spendingPeriod: numeric!
+      $spendingStartDate: numeric!
+      $since: numeric!
+    ) {
+      Redemption(
+        where: {
+          chainId: { _eq: $chainId }
+          delegate: { _eq: $delegate }
+          delegator: { _eq: $delegator }
+          spendingToken: { _eq: $spendingToken }
+          spendingPeriod: { _eq: $spendingPeriod }
+          spendingStartDate: { _eq: $spendingStartDate }
+          timestamp: { _gte: $since }
+        }
+      ) {
+        txHash
+        timestamp
+        executedAmount
+        spendingLimit
+      }
+    }
+  `;
+
+  try {
+    const response = await fetch(ENVIO_GRAPHQL_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        query,
+        variables: {
+          chainId: params.chainId,
+          delegate: params.delegate.toLowerCase(),
+          delegator: params.delegator.toLowerCase(),
+          spendingToken: params.spendingToken.toLowerCase(),
+          spendingPeriod: params.spendingPeriod.toString(),
+          spendingStartDate: params.startTime.toString(),
+          since: params.since.toString(),
+        },
+      }),
+    });
+
+    const result = (await response.json()) as EnvioPeriodQueryResult;
+
+    if (result.errors) {
+      console.error("Envio GraphQL errors:", result.errors);
+      return null;
+    }
+
+    return result.data?.Redemption || [];
+  } catch (error) {
+    console.error("Failed to fetch period redemptions from Envio:", error);
+    return null;
+  }
+}
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import { Agent, type IAgent } from "../models/Agent.js";
+
+// A first delay long enough for the cap to be reached before the agent gives up
+process.env.FAILURE_BACKOFF_SECONDS = "30000";
+
+const NOW = 1700000000 * 1000;
+
+describe("Failure tracking", () => {
+  let failures: typeof import("./failures.js");
+  let agent: IAgent;
+
+  // Loaded after the environment above is set, it is read at load time
+  before(async () => {
+    failures = await import("./failures.js");
+  });
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    mock.method(console, "log", () => {});
+    agent = new Agent({ agentType: "limit-order", status: "active", nextExecution: new Date(NOW) });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+
+  const retryDelay = () => (agent.nextExecution.getTime() - NOW) / 1000;
+
+  it("Retries after the first delay, doubling it after every further failure", () => {
+    failures.recordFailure(agent, "Swap reverted");
+    assert.equal(agent.consecutiveFailures, 1);
+    assert.equal(retryDelay(), 30000);
+
+    failures.recordFailure(agent, "Swap reverted");
+    assert.equal(agent.consecutiveFailures, 2);
+    assert.equal(retryDelay(), 60000);
+    assert.equal(agent.status, "active");
+  });
+
+  it("Never waits longer than a day between retries", () => {
+    for (let failure = 0; failure < 4; failure++) failures.recordFailure(agent);
+
+    assert.equal(agent.consecutiveFailures, 4);
+    assert.equal(retryDelay(), 24 * 60 * 60);
+    assert.equal(agent.status, "active");
+  });
+
+  it("Moves the agent to failed after five failures in a row", () => {
+    for (let failure = 0; failure < 4; failure++) failures.recordFailure(agent, "Swap reverted");
+    const lastRetry = agent.nextExecution;
+
+    failures.recordFailure(agent, "Swap reverted");
+
+    assert.equal(agent.status, "failed");
+    assert.equal(agent.statusReason, "Failed 5 times in a row: Swap reverted");
+    assert.equal(agent.nextExecution, lastRetry);
+  });
+
+  it("A reset starts the backoff over", () => {
+    for (let failure = 0; failure < 3; failure++) failures.recordFailure(agent);
+
+    failures.resetFailures(agent);
+    failures.recordFailure(agent);
+
+    assert.equal(agent.consecutiveFailures, 1);
+    assert.equal(retryDelay(), 30000);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Failure Tracking
+ * Failed executions are retried with exponential backoff. After too many
+ * failures in a row the agent moves to "failed" until its owner resets it.
+ */
+
+import { IAgent } from "../models/Agent.js";
+
+// Consecutive failures before the agent is marked as failed
+const MAX_CONSECUTIVE_FAILURES = parseInt(process.env.MAX_CONSECUTIVE_FAILURES || "5");
+
+// First retry delay, doubled after every further failure
+const FAILURE_BACKOFF_SECONDS = parseInt(process.env.FAILURE_BACKOFF_SECONDS || "60");
+
+// Longest retry delay (1 day)
+const MAX_BACKOFF_SECONDS = 24 * 60 * 60;
+
+/**
+ * Count a failed execution and back off, or give up after too many in a row
+ */
+export function recordFailure(agent: IAgent, error?: string): void {
+  // $inc, so concurrent reports of different executions both count
+  agent.$inc("consecutiveFailures", 1);
+
+  if (agent.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+    agent.status = "failed";
+    agent.statusReason = `Failed ${agent.consecutiveFailures} times in a row${error ? `: ${error}` : ""}`;
+    console.log(`🛑 Agent ${agent._id} marked as failed after ${agent.consecutiveFailures} consecutive failures`);
+    return;
+  }
+
+  const backoffSeconds = Math.min(FAILURE_BACKOFF_SECONDS * 2 ** (agent.consecutiveFailures - 1), MAX_BACKOFF_SECONDS);
+  agent.nextExecution = new Date(Date.now() + backoffSeconds * 1000);
+  console.log(`🔁 Agent ${agent._id} failed ${agent.consecutiveFailures}x, retrying in ${backoffSeconds}s`);
+}
+
+/**
+ * Clear the failure streak (after a success, or when the owner resumes the agent)
+ */
+export function resetFailures(agent: IAgent): void {
+  agent.consecutiveFailures = 0;
+}
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { slice } from "viem";
+import { LIMIT_ORDER_SESSION_KEY, OTHER_USER, USDC, USER, permissionContext } from "../test/harness.js";
+import { decodePermissionContext, verifyPermission, type PermissionMetadata } from "./permissions.js";
+
+const WETH = "0x4200000000000000000000000000000000000006";
+
+function metadata(context: string, overrides: Partial<PermissionMetadata> = {}): PermissionMetadata {
+  return {
+    userAddress: USER,
+    permissionContext: context,
+    sessionKeyAddress: LIMIT_ORDER_SESSION_KEY,
+    spendingToken: USDC,
+    spendingLimit: "1000000",
+    spendingPeriod: 86400,
+    startTime: 1700000000,
+    ...overrides,
+  };
+}
+
+const spend = { token: USDC, amountPerExecution: "1000000" };
+
+describe("Permission verification", () => {
+  it("Decodes the caveat terms of a delegation chain", () => {
+    const expiry = Math.floor(Date.now() / 1000) + 3600;
+
+    assert.deepEqual(decodePermissionContext(permissionContext({ expiry })), {
+      delegate: LIMIT_ORDER_SESSION_KEY,
+      delegator: USER,
+      token: USDC,
+      periodAmount: 1000000n,
+      periodDuration: 86400,
+      startDate: 1700000000,
+      expiry,
+    });
+  });
+
+  it("Accepts a permission that matches its metadata", () => {
+    const result = verifyPermission("limit-order", metadata(permissionContext()), spend);
+
+    assert.equal(result.valid, true);
+  });
+
+  it("Rejects a permission granted to another delegate", () => {
+    const result = verifyPermission("limit-order", metadata(permissionContext({ delegate: OTHER_USER })), spend);
+
+    assert.deepEqual(result, {
+      valid: false,
+      error: `Permission must be granted to the limit-order session key ${LIMIT_ORDER_SESSION_KEY}`,
+    });
+  });
+
+  it("Rejects a permission signed by another wallet", () => {
+    const result = verifyPermission("limit-order", metadata(permissionContext({ delegator: OTHER_USER })), spend);
+
+    assert.deepEqual(result, { valid: false, error: "Permission is not signed by userAddress" });
+  });
+
+  it("Rejects metadata that doesn't match the signed terms", () => {
+    const result = verifyPermission("limit-order", metadata(permissionContext(), { spendingLimit: "2000000" }), spend);
+
+    assert.equal(result.valid, false);
+    assert.match((result as { error: string }).error, /does not match the signed delegation/);
+  });
+
+  it("Rejects spending a token the permission doesn't cover", () => {
+    const result = verifyPermission("limit-order", metadata(permissionContext()), { ...spend, token: WETH });
+
+    assert.deepEqual(result, { valid: false, error: `Permission only allows spending ${USDC}` });
+  });
+
+  it("Rejects an amount per execution above the period allowance", () => {
+    const result = verifyPermission("limit-order", metadata(permissionContext()), { ...spend, amountPerExecution: "1000001" });
+
+    assert.equal(result.valid, false);
+    assert.match((result as { error: string }).error, /exceeds the permission's allowance/);
+  });
+
+  it("Rejects an expired permission", () => {
+    const context = permissionContext({ expiry: Math.floor(Date.now() / 1000) - 1 });
+
+    const result = verifyPermission("limit-order", metadata(context), spend);
+
+    assert.deepEqual(result, { valid: false, error: "Permission has already expired" });
+  });
+
+  it("Rejects truncated spending limit terms", () => {
+    const context = permissionContext({ spendingTerms: `0x${"00".repeat(84)}` });
+
+    const result = verifyPermission("limit-order", metadata(context), spend);
+
+    assert.deepEqual(result, {
+      valid: false,
+      error: "Invalid permissionContext: Permission's ERC20 periodic spending limit terms are malformed",
+    });
+  });
+
+  it("Rejects a truncated delegation chain", () => {
+    const context = permissionContext();
+
+    const result = verifyPermission("limit-order", metadata(slice(context, 0, 100)), spend);
+
+    assert.equal(result.valid, false);
+    assert.match((result as { error: string }).error, /^Invalid permissionContext: /);
+  });
+});
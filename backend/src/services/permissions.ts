@@ -0,0 +1,218 @@
+/**
+ * Permission Context Verification
+ * Decodes the signed delegation chain in a permissionContext and checks it
+ * against what the client says it grants, before the agent is stored.
+ *
+ * permissionContext is abi.encode(Delegation[]) ordered leaf first: the first
+ * delegation is granted to our session key, the last one is signed by the user.
+ */
+
+import { decodeAbiParameters, hexToBigInt, isHex, size, slice, type Hex } from "viem";
+import type { AgentType } from "../models/Agent.js";
+import { SESSION_KEYS } from "../config/sessionKeys.js";
+
+// ============================================
+// Known enforcers (lowercase) - decoded exactly like the indexer's registry
+// (envio/src/enforcers.ts): terms of any other length are malformed
+// ============================================
+const SPENDING_LIMIT_ENFORCER = "0x474e3ae7e169e940607cc624da8a15eb120139ab";
+const TIMESTAMP_ENFORCER = "0x1046bb45c8d673d4ea75321280db34899413c069";
+
+const DELEGATIONS_ABI = [
+  {
+    type: "tuple[]",
+    components: [
+      { name: "delegate", type: "address" },
+      { name: "delegator", type: "address" },
+      { name: "authority", type: "bytes32" },
+      {
+        name: "caveats",
+        type: "tuple[]",
+        components: [
+          { name: "enforcer", type: "address" },
+          { name: "terms", type: "bytes" },
+          { name: "args", type: "bytes" },
+        ],
+      },
+      { name: "salt", type: "uint256" },
+      { name: "signature", type: "bytes" },
+    ],
+  },
+] as const;
+
+export interface PermissionTerms {
+  delegate: string;
+  delegator: string;
+  token: string;
+  periodAmount: bigint;
+  periodDuration: number;
+  startDate: number;
+  // Unix seconds the delegation stops being valid, if it has a TimestampEnforcer caveat
+  expiry: number | null;
+}
+
+/**
+ * Client-supplied permission metadata, as sent to the create routes
+ */
+export interface PermissionMetadata {
+  userAddress: string;
+  permissionContext: string;
+  sessionKeyAddress: string;
+  spendingToken: string;
+  spendingLimit: string;
+  spendingPeriod: number;
+  startTime: number;
+}
+
+export type PermissionVerification =
+  | { valid: true; terms: PermissionTerms }
+  | { valid: false; error: string };
+
+// Terms are only decoded when they have exactly the enforcer's layout size
+function hasSize(terms: string, expected: number): terms is Hex {
+  return isHex(terms) && size(terms) === expected;
+}
+
+function uint(terms: Hex, start: number, length: number): bigint {
+  return hexToBigInt(slice(terms, start, start + length));
+}
+
+/**
+ * Decode SpendingLimitEnforcer (ERC20 periodic transfer) terms
+ * Layout: token (20 bytes) | amount (32 bytes) | period (32 bytes) | startDate (32 bytes)
+ */
+function decodeSpendingLimitTerms(terms: string) {
+  if (!hasSize(terms, 116)) return null;
+
+  return {
+    token: slice(terms, 0, 20).toLowerCase(),
+    periodAmount: uint(terms, 20, 32),
+    periodDuration: Number(uint(terms, 52, 32)),
+    startDate: Number(uint(terms, 84, 32)),
+  };
+}
+
+/**
+ * Decode TimestampEnforcer terms
+ * Layout: afterThreshold (16 bytes) | beforeThreshold (16 bytes), 0 = no bound
+ */
+function decodeTimestampTerms(terms: string): number | null {
+  if (!hasSize(terms, 32)) return null;
+
+  const beforeThreshold = Number(uint(terms, 16, 16));
+  return beforeThreshold > 0 ? beforeThreshold : null;
+}
+
+/**
+ * Decode the delegation chain and extract the caveat terms
+ * Throws if the context is not an ABI-encoded delegation chain
+ */
+export function decodePermissionContext(permissionContext: string): PermissionTerms {
+  const [delegations] = decodeAbiParameters(DELEGATIONS_ABI, permissionContext as Hex);
+
+  if (delegations.length === 0) {
+    throw new Error("Permission context contains no delegations");
+  }
+
+  const leaf = delegations[0];
+  const root = delegations[delegations.length - 1];
+
+  // Caveats anywhere in the chain are enforced - use the one closest to the leaf
+  const caveats = delegations.flatMap((delegation) => delegation.caveats);
+
+  const spendingCaveat = caveats.find((caveat) => caveat.enforcer.toLowerCase() === SPENDING_LIMIT_ENFORCER);
+  if (!spendingCaveat) {
+    throw new Error("Permission has no ERC20 periodic spending limit caveat");
+  }
+
+  const spending = decodeSpendingLimitTerms(spendingCaveat.terms);
+  if (!spending) {
+    throw new Error("Permission's ERC20 periodic spending limit terms are malformed");
+  }
+
+  const timestampCaveat = caveats.find((caveat) => caveat.enforcer.toLowerCase() === TIMESTAMP_ENFORCER);
+
+  return {
+    delegate: leaf.delegate.toLowerCase(),
+    delegator: root.delegator.toLowerCase(),
+    ...spending,
+    expiry: timestampCaveat ? decodeTimestampTerms(timestampCaveat.terms) : null,
+  };
+}
+
+function toBigInt(value: string): bigint | null {
+  try {
+    return BigInt(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a permission before creating an agent
+ * - the delegation is granted by the user to the agent type's session key
+ * - the client-supplied metadata matches the signed caveat terms, and it has not expired
+ * - the agent spends the permitted token, and one execution fits in a period's allowance
+ */
+export function verifyPermission(
+  agentType: AgentType,
+  metadata: PermissionMetadata,
+  spend: { token: string; amountPerExecution?: string }
+): PermissionVerification {
+  let terms: PermissionTerms;
+  try {
+    terms = decodePermissionContext(metadata.permissionContext);
+  } catch (error) {
+    return {
+      valid: false,
+      error: `Invalid permissionContext: ${error instanceof Error ? error.message : "could not decode delegation chain"}`,
+    };
+  }
+
+  const sessionKey = SESSION_KEYS[agentType];
+
+  if (terms.delegate !== sessionKey || metadata.sessionKeyAddress.toLowerCase() !== sessionKey) {
+    return { valid: false, error: `Permission must be granted to the ${agentType} session key ${sessionKey}` };
+  }
+
+  if (terms.delegator !== metadata.userAddress.toLowerCase()) {
+    return { valid: false, error: "Permission is not signed by userAddress" };
+  }
+
+  if (
+    terms.token !== metadata.spendingToken.toLowerCase() ||
+    toBigInt(metadata.spendingLimit) !== terms.periodAmount ||
+    Number(metadata.spendingPeriod) !== terms.periodDuration ||
+    Number(metadata.startTime) !== terms.startDate
+  ) {
+    return {
+      valid: false,
+      error: "Permission metadata (spendingToken, spendingLimit, spendingPeriod, startTime) does not match the signed delegation",
+    };
+  }
+
+  if (terms.expiry !== null && terms.expiry <= Math.floor(Date.now() / 1000)) {
+    return { valid: false, error: "Permission has already expired" };
+  }
+
+  if (spend.token.toLowerCase() !== terms.token) {
+    return { valid: false, error: `Permission only allows spending ${terms.token}` };
+  }
+
+  if (spend.amountPerExecution !== undefined) {
+    const amount = toBigInt(spend.amountPerExecution);
+
+    if (amount === null || amount <= 0n) {
+      return { valid: false, error: "Amount per execution must be a positive integer" };
+    }
+
+    if (amount > terms.periodAmount) {
+      return {
+        valid: false,
+        error: `Amount per execution ${amount} exceeds the permission's allowance of ${terms.periodAmount} per ${terms.periodDuration}s period`,
+      };
+    }
+  }
+
+  return { valid: true, terms };
+}
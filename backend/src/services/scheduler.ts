@@ -3,6 +3,14 @@
  * Handles agent execution scheduling
  */
 
+import cron, { type ScheduledTask } from "node-cron";
+import { Agent } from "../models/Agent.js";
+import { fetchDisabledDelegations } from "./envio.js";
+import { serviceHeaders } from "../middleware/auth.js";
+
+// Agent service that holds the session keys and performs the redemptions
+const AGENT_SERVICE_URL = process.env.AGENT_SERVICE_URL || "http://localhost:3002";
+
 interface ExecutionStats {
   agents: {
     total: number;
@@ -15,49 +23,241 @@ interface ExecutionStats {
   };
 }
 
-let schedulerRunning = false;
-let schedulerInterval: NodeJS.Timeout | null = null;
+let scheduledTask: ScheduledTask | null = null;
 
 export function startScheduler(cronExpression: string): void {
-  if (schedulerRunning) {
+  if (scheduledTask) {
     console.log("Scheduler already running");
     return;
   }
-  schedulerRunning = true;
-  console.log(`Scheduler started with cron: ${cronExpression}`);
 
-  // Simple interval-based scheduler (1 minute)
-  schedulerInterval = setInterval(async () => {
-    await processDueAgents();
-  }, 60000);
+  if (!cron.validate(cronExpression)) {
+    throw new Error(`Invalid cron expression: ${cronExpression}`);
+  }
+
+  // noOverlap: skip a tick while the previous run is still executing agents
+  scheduledTask = cron.schedule(
+    cronExpression,
+    runScheduledTasks,
+    { noOverlap: true }
+  );
+
+  console.log(`Scheduler started with cron: ${cronExpression}`);
 }
 
 export function stopScheduler(): void {
-  if (schedulerInterval) {
-    clearInterval(schedulerInterval);
-    schedulerInterval = null;
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
   }
-  schedulerRunning = false;
   console.log("Scheduler stopped");
 }
 
+/**
+ * Run one scheduler tick: sync on-chain state, then dispatch due agents
+ * Each step catches its own errors, so an Envio or MongoDB outage in a sync step
+ * never keeps due agents from running
+ */
+export async function runScheduledTasks(): Promise<void> {
+  await runStep("Disabled delegation sync", syncDisabledDelegations);
+  await runStep("Permission expiry", expirePermissions);
+  await runStep("Stranded balance recovery", recoverStrandedBalances);
+  await runStep("Due agent dispatch", processDueAgents);
+}
+
+async function runStep(name: string, step: () => Promise<unknown>): Promise<void> {
+  try {
+    await step();
+  } catch (error) {
+    console.error(`   ❌ ${name} failed:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Pause agents whose delegation was disabled on-chain, so they stop burning gas
+ * on redemptions that can only revert. Agents paused this way are resumed when
+ * the delegation is re-enabled.
+ * Delegations are matched like the on-chain stats: chainId + delegate + delegator + spending limit terms
+ */
+export async function syncDisabledDelegations(): Promise<{ paused: number; resumed: number }> {
+  const delegations = await fetchDisabledDelegations();
+  let paused = 0;
+  let resumed = 0;
+
+  for (const delegation of delegations) {
+    // Without decoded spending limit terms the delegation cannot be matched to an agent
+    if (!delegation.spendingToken || !delegation.spendingPeriod || !delegation.spendingStartDate) {
+      continue;
+    }
+
+    const filter = {
+      chainId: delegation.chainId,
+      sessionKeyAddress: delegation.delegate.toLowerCase(),
+      userAddress: delegation.delegator.toLowerCase(),
+      spendingToken: delegation.spendingToken.toLowerCase(),
+      spendingPeriod: Number(delegation.spendingPeriod),
+      startTime: Number(delegation.spendingStartDate),
+    };
+
+    if (delegation.disabled) {
+      const result = await Agent.updateMany(
+        { ...filter, status: "active" },
+        {
+          $set: {
+            status: "paused",
+            delegationDisabledAt: new Date(Number(delegation.disabledAt) * 1000),
+            delegationDisabledTxHash: delegation.disabledTxHash,
+          },
+        }
+      );
+      paused += result.modifiedCount;
+    } else {
+      // Only resume agents that were paused because of the disabled delegation
+      const result = await Agent.updateMany(
+        { ...filter, status: "paused", delegationDisabledAt: { $ne: null } },
+        {
+          $set: { status: "active" },
+          $unset: { delegationDisabledAt: "", delegationDisabledTxHash: "" },
+        }
+      );
+      resumed += result.modifiedCount;
+    }
+  }
+
+  if (paused > 0 || resumed > 0) {
+    console.log(`   🔌 Disabled delegations: ${paused} agents paused, ${resumed} resumed`);
+  }
+
+  return { paused, resumed };
+}
+
+/**
+ * Complete agents whose delegation has expired - every redemption would revert
+ * Returns the number of agents completed
+ */
+export async function expirePermissions(): Promise<number> {
+  const now = Math.floor(Date.now() / 1000);
+
+  const result = await Agent.updateMany(
+    { status: { $in: ["active", "paused"] }, permissionExpiry: { $lte: now } },
+    { $set: { status: "completed", statusReason: "Permission expired - grant a new one to continue" } }
+  );
+
+  if (result.modifiedCount > 0) {
+    console.log(`   ⌛ Expired permissions: ${result.modifiedCount} agents completed`);
+  }
+
+  return result.modifiedCount;
+}
+
+/**
+ * Have the agent service retry or refund tokens stranded on session keys
+ * Agents with stranded tokens are not dispatched until this settles them
+ */
+export async function recoverStrandedBalances(): Promise<void> {
+  const response = await fetch(`${AGENT_SERVICE_URL}/recover`, {
+    method: "POST",
+    headers: serviceHeaders(),
+  });
+
+  if (!response.ok) {
+    const data = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(data.error || `Agent service responded with ${response.status}`);
+  }
+}
+
+/**
+ * Send a single agent to the agent service for execution
+ * The agent service claims the execution lease, executes it and reports back via POST /:id/log
+ */
+async function dispatchAgent(agentId: string, agentType: string): Promise<{ success: boolean; error?: string }> {
+  const response = await fetch(`${AGENT_SERVICE_URL}/execute`, {
+    method: "POST",
+    headers: serviceHeaders(),
+    body: JSON.stringify({ agentId, agentType, dueOnly: true }),
+  });
+
+  const data = (await response.json().catch(() => ({}))) as { success?: boolean; error?: string };
+
+  if (!response.ok) {
+    return { success: false, error: data.error || `Agent service responded with ${response.status}` };
+  }
+
+  return { success: !!data.success, error: data.error };
+}
+
+/**
+ * Find all active agents whose nextExecution has passed and dispatch them
+ * Returns the number of agents dispatched
+ */
 export async function processDueAgents(): Promise<number> {
-  // Placeholder - actual implementation would query and process due agents
   console.log(`[${new Date().toISOString()}] Processing due agents...`);
-  return 0;
+
+  const now = new Date();
+  const dueAgents = await Agent.find({
+    status: "active",
+    nextExecution: { $lte: now },
+    // Skip agents whose delegation expired since the last expiry sweep
+    permissionExpiry: { $not: { $lte: Math.floor(now.getTime() / 1000) } },
+    // Skip agents with stranded tokens until the recovery sweep settles them
+    inFlight: null,
+    // Skip agents currently leased by a worker
+    $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+  })
+    .sort({ nextExecution: 1 })
+    .select("_id name agentType");
+
+  if (dueAgents.length === 0) {
+    console.log("   No agents due for execution");
+    return 0;
+  }
+
+  console.log(`   Found ${dueAgents.length} agents due for execution`);
+
+  let dispatched = 0;
+
+  // Execute sequentially - all agents of a type share one session key (nonce ordering)
+  for (const agent of dueAgents) {
+    const agentId = agent._id.toString();
+
+    try {
+      const result = await dispatchAgent(agentId, agent.agentType);
+      dispatched++;
+
+      if (result.success) {
+        console.log(`   ✅ ${agent.name} (${agent.agentType}) executed`);
+      } else {
+        console.log(`   ⏳ ${agent.name} (${agent.agentType}) not executed: ${result.error}`);
+      }
+    } catch (error) {
+      // Agent service unreachable - leave the agent due so the next tick retries it
+      console.error(`   ❌ Failed to dispatch ${agentId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return dispatched;
 }
 
 export async function getExecutionStats(): Promise<ExecutionStats> {
-  // Placeholder - actual implementation would query the database
+  const [total, active, completed, failed, executionTotals] = await Promise.all([
+    Agent.countDocuments(),
+    Agent.countDocuments({ status: "active" }),
+    Agent.countDocuments({ status: "completed" }),
+    Agent.countDocuments({ status: "failed" }),
+    Agent.aggregate<{ totalExecutions: number }>([
+      { $group: { _id: null, totalExecutions: { $sum: "$executionCount" } } },
+    ]),
+  ]);
+
   return {
     agents: {
-      total: 0,
-      active: 0,
-      completed: 0,
-      failed: 0,
+      total,
+      active,
+      completed,
+      failed,
     },
     executions: {
-      totalExecutions: 0,
+      totalExecutions: executionTotals[0]?.totalExecutions ?? 0,
     },
   };
 }
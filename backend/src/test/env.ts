@@ -0,0 +1,18 @@
+import { generateKeyPairSync } from "crypto";
+
+// ============================================
+// Environment for route tests
+// Imported before any module that reads its configuration at load time
+// ============================================
+
+export const SERVICE_TOKEN = "test-service-token";
+
+process.env.AGENT_SERVICE_TOKEN = SERVICE_TOKEN;
+
+// Nothing listens here - signature checks fall back to ECDSA recovery for wallets
+process.env.BASE_SEPOLIA_RPC_URL = "http://127.0.0.1:9";
+
+// Only the public half is needed to store permission contexts
+process.env.PERMISSION_CONTEXT_PUBLIC_KEY = generateKeyPairSync("rsa", { modulusLength: 2048 })
+  .publicKey.export({ type: "spki", format: "pem" })
+  .toString();
@@ -0,0 +1,197 @@
+import "./env.js";
+import { randomBytes } from "crypto";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import { encodeAbiParameters, encodePacked, type Hex } from "viem";
+import { Agent, type IAgent } from "../models/Agent.js";
+import { AuthNonce, Session, type IAuthNonce, type ISession } from "../models/Session.js";
+import { authenticate, hashToken } from "../middleware/auth.js";
+import agentsRouter from "../routes/agents.js";
+import authRouter from "../routes/auth.js";
+import { MemoryCollection } from "./memory.js";
+
+export { SERVICE_TOKEN } from "./env.js";
+
+// ============================================
+// Route test harness: the API wired like src/index.ts, on in-memory models
+// ============================================
+
+export interface TestResponse {
+  status: number;
+  body: Record<string, any>;
+}
+
+export interface TestApi {
+  agents: MemoryCollection<IAgent>;
+  sessions: MemoryCollection<ISession>;
+  nonces: MemoryCollection<IAuthNonce>;
+  request(method: string, path: string, options?: { token?: string; body?: unknown }): Promise<TestResponse>;
+  /**
+   * Start a session for a wallet, returns its bearer token
+   */
+  signIn(address: string, expiresAt?: Date): string;
+  close(): Promise<void>;
+}
+
+export async function startTestApi(): Promise<TestApi> {
+  const agents = new MemoryCollection(Agent).mock();
+  const sessions = new MemoryCollection(Session).mock();
+  const nonces = new MemoryCollection(AuthNonce).mock();
+
+  const app = express();
+  app.use(express.json());
+  app.use(authenticate);
+  app.use("/api/auth", authRouter);
+  app.use("/api/agents", agentsRouter);
+
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    agents,
+    sessions,
+    nonces,
+
+    async request(method, path, { token, body } = {}) {
+      const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      return { status: response.status, body: (await response.json()) as TestResponse["body"] };
+    },
+
+    signIn(address, expiresAt = new Date(Date.now() + 60 * 60 * 1000)) {
+      const token = randomBytes(32).toString("hex");
+      sessions.insert({ tokenHash: hashToken(token), address: address.toLowerCase(), chainId: 84532, expiresAt });
+      return token;
+    },
+
+    close() {
+      return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
+
+// ============================================
+// Fixtures
+// ============================================
+
+export const USER = "0x1111111111111111111111111111111111111111";
+export const OTHER_USER = "0x2222222222222222222222222222222222222222";
+export const USDC = "0x036cbd53842c5426634e7929541ec2318f3dcf7e";
+export const LIMIT_ORDER_SESSION_KEY = "0x0013bb0d8712dc4cacbc8cd32d4c0c851cdf18da";
+
+const SPENDING_LIMIT_ENFORCER = "0x474e3ae7e169e940607cc624da8a15eb120139ab";
+const TIMESTAMP_ENFORCER = "0x1046bb45c8d673d4ea75321280db34899413c069";
+
+const DELEGATIONS_ABI = [
+  {
+    type: "tuple[]",
+    components: [
+      { name: "delegate", type: "address" },
+      { name: "delegator", type: "address" },
+      { name: "authority", type: "bytes32" },
+      {
+        name: "caveats",
+        type: "tuple[]",
+        components: [
+          { name: "enforcer", type: "address" },
+          { name: "terms", type: "bytes" },
+          { name: "args", type: "bytes" },
+        ],
+      },
+      { name: "salt", type: "uint256" },
+      { name: "signature", type: "bytes" },
+    ],
+  },
+] as const;
+
+/**
+ * An encoded single-delegation permissionContext from USER to the limit order session key,
+ * allowing 1 USDC per day. Signatures are not checked by the backend, so it is left empty
+ */
+export function permissionContext(
+  overrides: {
+    delegate?: string;
+    delegator?: string;
+    token?: string;
+    periodAmount?: bigint;
+    periodDuration?: number;
+    startDate?: number;
+    expiry?: number;
+    spendingTerms?: Hex;
+  } = {}
+): Hex {
+  const spendingTerms =
+    overrides.spendingTerms ??
+    encodePacked(
+      ["address", "uint256", "uint256", "uint256"],
+      [
+        (overrides.token ?? USDC) as Hex,
+        overrides.periodAmount ?? 1000000n,
+        BigInt(overrides.periodDuration ?? 86400),
+        BigInt(overrides.startDate ?? 1700000000),
+      ]
+    );
+  const caveats = [{ enforcer: SPENDING_LIMIT_ENFORCER as Hex, terms: spendingTerms, args: "0x" as Hex }];
+  if (overrides.expiry !== undefined) {
+    caveats.push({
+      enforcer: TIMESTAMP_ENFORCER,
+      terms: encodePacked(["uint128", "uint128"], [0n, BigInt(overrides.expiry)]),
+      args: "0x",
+    });
+  }
+
+  return encodeAbiParameters(DELEGATIONS_ABI, [
+    [
+      {
+        delegate: (overrides.delegate ?? LIMIT_ORDER_SESSION_KEY) as Hex,
+        delegator: (overrides.delegator ?? USER) as Hex,
+        authority: `0x${"f".repeat(64)}`,
+        caveats,
+        salt: 0n,
+        signature: "0x",
+      },
+    ],
+  ]);
+}
+
+/**
+ * An active limit order agent owned by USER, due now
+ */
+export function limitOrderAgent(overrides: Partial<IAgent> | Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    userAddress: USER,
+    agentType: "limit-order",
+    name: "Test limit order",
+    permissionContext: "enc:v1:test",
+    delegationManager: "0xdb9b1e94b5b69df7e401ddbede43491141047db3",
+    sessionKeyAddress: LIMIT_ORDER_SESSION_KEY,
+    chainId: 84532,
+    spendingToken: USDC,
+    spendingLimit: "1000000",
+    spendingPeriod: 86400,
+    startTime: 1700000000,
+    config: {
+      limitOrder: {
+        tokenIn: USDC,
+        tokenOut: "0x4200000000000000000000000000000000000006",
+        amountIn: "1000000",
+        targetPrice: "3000",
+        direction: "buy",
+        feeTier: 3000,
+        expiryTimestamp: Math.floor(Date.now() / 1000) + 86400,
+      },
+    },
+    nextExecution: new Date(Date.now() - 1000),
+    status: "active",
+    ...overrides,
+  };
+}
@@ -0,0 +1,236 @@
+import { mock } from "node:test";
+import type { HydratedDocument, Model } from "mongoose";
+import sift from "sift";
+
+// ============================================
+// In-memory stand-in for a model's collection
+//
+// Tests have no MongoDB, so the model's query methods are mocked: filters are
+// matched with sift (MongoDB query semantics) and updates applied with the
+// operators the routes use. A conditional findOneAndUpdate therefore wins or
+// loses exactly like it would against the database. Projections and sorting
+// are not applied.
+// ============================================
+
+type Raw = Record<string, unknown>;
+type Filter = Record<string, unknown>;
+type Update = Record<string, unknown>;
+
+class MemoryQuery<R> implements PromiseLike<R> {
+  constructor(private readonly run: () => R) {}
+
+  select(): this {
+    return this;
+  }
+
+  sort(): this {
+    return this;
+  }
+
+  then<A = R, B = never>(
+    onfulfilled?: ((value: R) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    return Promise.resolve().then(this.run).then(onfulfilled, onrejected);
+  }
+}
+
+// Copy plain objects and arrays, keep Dates and ObjectIds as they are
+function clone<V>(value: V): V {
+  if (Array.isArray(value)) return value.map(clone) as V;
+  if (value instanceof Date) return new Date(value) as V;
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)])) as V;
+  }
+  return value;
+}
+
+// Subdocuments and mongoose arrays in an update become plain values
+function plain(value: unknown): unknown {
+  const object = value as { toObject?: () => unknown } | null;
+  if (object && typeof object.toObject === "function") return object.toObject();
+  if (Array.isArray(value)) return value.map(plain);
+  return value;
+}
+
+function parentOf(raw: Raw, path: string): [Raw, string] {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  let parent = raw;
+  for (const key of keys) {
+    parent[key] ??= {};
+    parent = parent[key] as Raw;
+  }
+  return [parent, last];
+}
+
+function applyUpdate(raw: Raw, update: Update): void {
+  for (const [operator, fields] of Object.entries(update)) {
+    // Fields outside an operator are set, like mongoose does
+    if (!operator.startsWith("$")) {
+      applyUpdate(raw, { $set: { [operator]: fields } });
+      continue;
+    }
+
+    for (const [path, value] of Object.entries(fields as Update)) {
+      const [parent, key] = parentOf(raw, path);
+
+      switch (operator) {
+        case "$set":
+          parent[key] = clone(plain(value));
+          break;
+        case "$unset":
+          delete parent[key];
+          break;
+        case "$inc":
+          parent[key] = ((parent[key] as number | undefined) ?? 0) + (value as number);
+          break;
+        case "$push":
+          parent[key] = [...((parent[key] as unknown[] | undefined) ?? []), clone(plain(value))];
+          break;
+        default:
+          throw new Error(`Unsupported update operator ${operator}`);
+      }
+    }
+  }
+}
+
+export class MemoryCollection<T> {
+  readonly docs: Raw[] = [];
+
+  private heldWrites: { count: number; waiting: Array<() => void> } | null = null;
+
+  constructor(private readonly model: Model<T>) {}
+
+  /**
+   * Store a document built from data (defaults applied, not validated)
+   */
+  insert(data: Partial<T> | Raw): HydratedDocument<T> {
+    const raw = new this.model(data).toObject() as Raw;
+    this.docs.push(raw);
+    return this.hydrate(raw);
+  }
+
+  /**
+   * Stored document by id, for assertions and for changing state behind the routes' back
+   */
+  get(id: unknown): Raw | undefined {
+    return this.docs.find((raw) => String(raw._id) === String(id));
+  }
+
+  /**
+   * Hold the next `count` conditional updates until all of them were issued, like
+   * concurrent requests that each read the document before any of them wrote it
+   * They are then applied one at a time, in the order they were issued
+   */
+  holdWrites(count: number): void {
+    this.heldWrites = { count, waiting: [] };
+  }
+
+  private async writeTurn(): Promise<void> {
+    const held = this.heldWrites;
+    if (!held) return;
+
+    await new Promise<void>((resolve) => {
+      held.waiting.push(resolve);
+      if (held.waiting.length === held.count) {
+        this.heldWrites = null;
+        held.waiting.forEach((release) => release());
+      }
+    });
+  }
+
+  private hydrate(raw: Raw): HydratedDocument<T> {
+    return this.model.hydrate(clone(raw));
+  }
+
+  private match(filter: Filter = {}): Raw[] {
+    return this.docs.filter(sift(filter));
+  }
+
+  private save(doc: HydratedDocument<T>): void {
+    const raw = doc.toObject() as Raw;
+    const index = this.docs.findIndex((stored) => String(stored._id) === String(raw._id));
+    if (index === -1) this.docs.push(raw);
+    else this.docs[index] = raw;
+  }
+
+  /**
+   * Replace the model's query methods (and document save) with this collection
+   * Restored by mock.restoreAll()
+   */
+  mock(): this {
+    const model = this.model;
+    const query = <R>(run: () => R) => new MemoryQuery(run);
+    const first = (filter?: Filter) => this.match(filter)[0];
+
+    mock.method(model, "find", (filter?: Filter) => query(() => this.match(filter).map((raw) => this.hydrate(raw))));
+    mock.method(model, "findOne", (filter?: Filter) =>
+      query(() => {
+        const raw = first(filter);
+        return raw ? this.hydrate(raw) : null;
+      })
+    );
+    mock.method(model, "findById", (id: unknown) =>
+      query(() => {
+        const raw = this.get(id);
+        return raw ? this.hydrate(raw) : null;
+      })
+    );
+    mock.method(model, "exists", (filter?: Filter) =>
+      query(() => {
+        const raw = first(filter);
+        return raw ? { _id: raw._id } : null;
+      })
+    );
+    mock.method(model, "countDocuments", (filter?: Filter) => query(() => this.match(filter).length));
+    mock.method(model, "findOneAndUpdate", (filter: Filter, update: Update, options?: { returnDocument?: string }) =>
+      query(async () => {
+        await this.writeTurn();
+        const raw = first(filter);
+        if (!raw) return null;
+        const before = this.hydrate(raw);
+        applyUpdate(raw, update);
+        return options?.returnDocument === "after" ? this.hydrate(raw) : before;
+      })
+    );
+    mock.method(model, "findOneAndDelete", (filter: Filter) =>
+      query(() => {
+        const raw = first(filter);
+        if (!raw) return null;
+        this.docs.splice(this.docs.indexOf(raw), 1);
+        return this.hydrate(raw);
+      })
+    );
+    mock.method(model, "updateOne", (filter: Filter, update: Update) =>
+      query(() => {
+        const raw = first(filter);
+        if (raw) applyUpdate(raw, update);
+        return { matchedCount: raw ? 1 : 0, modifiedCount: raw ? 1 : 0 };
+      })
+    );
+    mock.method(model, "updateMany", (filter: Filter, update: Update) =>
+      query(() => {
+        const matched = this.match(filter);
+        matched.forEach((raw) => applyUpdate(raw, update));
+        return { matchedCount: matched.length, modifiedCount: matched.length };
+      })
+    );
+    mock.method(model, "deleteOne", (filter: Filter) =>
+      query(() => {
+        const raw = first(filter);
+        if (raw) this.docs.splice(this.docs.indexOf(raw), 1);
+        return { deletedCount: raw ? 1 : 0 };
+      })
+    );
+    mock.method(model, "create", async (data: Raw) => this.insert(data));
+
+    const collection = this;
+    mock.method(model.prototype, "save", async function (this: HydratedDocument<T>) {
+      collection.save(this);
+      return this;
+    });
+
+    return this;
+  }
+}
@@ -1,144 +1,193 @@
-import { DelegationManager } from "generated";
+import { DelegationManager, type handlerContext } from "generated";
+import {
+  decodeEntrySpend,
+  decodeRedemptionEntries,
+  findRedemptionEntry,
+  isSameDelegation,
+  type DelegationTuple,
+} from "./executions";
+import { getDelegationHash, getDelegationId, isRootAuthority } from "./delegations";
+import { decodeCaveat } from "./enforcers";
 
 // =============================================================================
-// KNOWN ENFORCERS (lowercase)
+// HELPERS
 // =============================================================================
-const SPENDING_LIMIT_ENFORCER = "0x474e3ae7e169e940607cc624da8a15eb120139ab";
-const TIMESTAMP_ENFORCER = "0x1046bb45c8d673d4ea75321280db34899413c069";
+
+/**
+ * Add item to array if not present
+ */
+function addUnique<T>(arr: T[], item: T): T[] {
+  return arr.includes(item) ? arr : [...arr, item];
+}
 
 // =============================================================================
-// DECODERS
+// CAVEATS
 // =============================================================================
 
 /**
- * Decode SpendingLimitEnforcer terms
- * Layout: token (20 bytes) | amount (32 bytes) | period (32 bytes) | startDate (32 bytes)
+ * Decode the limits we track from a delegation's caveats
  */
-function decodeSpendingLimitTerms(termsHex: string): {
-  token: string;
-  limit: bigint;
-  period: bigint;
-  startDate: bigint;
-} | null {
-  try {
-    const hex = termsHex.startsWith("0x") ? termsHex.slice(2) : termsHex;
-    if (hex.length < 232) return null;
+function decodeCaveats(caveatsTuple: Array<[string, string, string]>): {
+  enforcers: string[];
+  spendingToken: string | undefined;
+  spendingLimit: bigint | undefined;
+  spendingPeriod: bigint | undefined;
+  spendingStartDate: bigint | undefined;
+  expiresAt: bigint | undefined;
+} {
+  const result: ReturnType<typeof decodeCaveats> = {
+    enforcers: caveatsTuple.map((c) => c[0].toLowerCase()),
+    spendingToken: undefined,
+    spendingLimit: undefined,
+    spendingPeriod: undefined,
+    spendingStartDate: undefined,
+    expiresAt: undefined,
+  };
+
+  for (const [enforcer, terms] of caveatsTuple) {
+    const { enforcerName, decodedTerms } = decodeCaveat(enforcer, terms);
+    if (!decodedTerms) continue;
+
+    if (enforcerName === "ERC20PeriodTransferEnforcer") {
+      result.spendingToken = decodedTerms.token as string;
+      result.spendingLimit = BigInt(decodedTerms.periodAmount as string);
+      result.spendingPeriod = BigInt(decodedTerms.periodDuration as string);
+      result.spendingStartDate = BigInt(decodedTerms.startDate as string);
+    }
 
-    return {
-      token: "0x" + hex.slice(0, 40),
-      limit: BigInt("0x" + hex.slice(40, 104)),
-      period: BigInt("0x" + hex.slice(104, 168)),
-      startDate: BigInt("0x" + hex.slice(168, 232)),
-    };
-  } catch {
-    return null;
+    // beforeThreshold 0 means no expiry
+    if (enforcerName === "TimestampEnforcer" && decodedTerms.beforeThreshold !== "0") {
+      result.expiresAt = BigInt(decodedTerms.beforeThreshold as string);
+    }
   }
+
+  return result;
 }
 
 /**
- * Decode TimestampEnforcer terms
- * Layout: expiryTimestamp (32 bytes)
+ * Store a delegation's caveats with their decoded terms
  */
-function decodeTimestampTerms(termsHex: string): bigint | null {
-  try {
-    const hex = termsHex.startsWith("0x") ? termsHex.slice(2) : termsHex;
-    if (hex.length < 64) return null;
-    return BigInt("0x" + hex.slice(0, 64));
-  } catch {
-    return null;
+function setCaveats(
+  context: handlerContext,
+  delegationId: string,
+  caveatsTuple: ReadonlyArray<readonly [string, string, string]>
+): void {
+  caveatsTuple.forEach(([enforcer, terms], index) => {
+    context.Caveat.set({
+      id: `${delegationId}-${index}`,
+      delegation_id: delegationId,
+      index,
+      enforcer: enforcer.toLowerCase(),
+      terms,
+      ...decodeCaveat(enforcer, terms),
+    });
+  });
+}
+
+/**
+ * How many times this delegation was already redeemed earlier in the same transaction,
+ * recording this redemption for the logs after it
+ * Matched by log index - other logs (enforcer, token or ERC-4337 events) can sit
+ * between the RedeemedDelegation logs of one transaction
+ */
+async function countEarlierRedemptions(
+  context: handlerContext,
+  chainId: number,
+  txHash: string,
+  logIndex: number,
+  delegationId: string
+): Promise<number> {
+  const id = `${chainId}-${txHash}`;
+  const redemptions = await context.TransactionRedemptions.get(id);
+  const delegationIds = redemptions?.delegationIds ?? [];
+  const logIndexes = redemptions?.logIndexes ?? [];
+
+  if (!logIndexes.includes(logIndex)) {
+    context.TransactionRedemptions.set({
+      id,
+      delegationIds: [...delegationIds, delegationId],
+      logIndexes: [...logIndexes, logIndex],
+    });
   }
+
+  return delegationIds.filter((redeemed, i) => redeemed === delegationId && logIndexes[i] < logIndex).length;
 }
 
 // =============================================================================
-// EXECUTION CALLDATA DECODER
+// DELEGATION CHAIN
 // =============================================================================
 
-const TRANSFER_SELECTOR = "a9059cbb";
+type DelegationChain = {
+  parent_id: string | undefined;
+  root_id: string | undefined;
+  rootDelegator: string | undefined;
+  depth: number | undefined;
+};
 
 /**
- * Decode execution calldata to extract transfer details
- * Format: abi.encodePacked(target, value, calldata)
- * - target: 20 bytes (token address)
- * - value: 32 bytes (ETH value, usually 0)
- * - calldata: transfer(to, amount) = 4 + 32 + 32 = 68 bytes
+ * Place a delegation in its chain
+ * Its authority is ROOT_AUTHORITY or the parent's hash. The parent is looked up by
+ * hash if it is already indexed, otherwise taken from the permission context the
+ * delegation was redeemed with (leaf first, root last).
  */
-function decodeExecutionCalldata(executionHex: string): {
-  token: string;
-  recipient: string;
-  amount: bigint;
-} | null {
-  try {
-    const hex = executionHex.startsWith("0x") ? executionHex.slice(2) : executionHex;
-
-    // Minimum: 20 (target) + 32 (value) + 4 (selector) + 32 (to) + 32 (amount) = 120 bytes = 240 hex
-    if (hex.length < 240) return null;
-
-    const target = "0x" + hex.slice(0, 40);            // 20 bytes
-    const selector = hex.slice(104, 112);              // 4 bytes (after 52 bytes)
-
-    // Check if it's a transfer call
-    if (selector.toLowerCase() !== TRANSFER_SELECTOR) return null;
-
-    // Extract recipient (last 20 bytes of 32-byte padded address)
-    const recipient = "0x" + hex.slice(136, 176);      // bytes 68-88
-    const amount = BigInt("0x" + hex.slice(176, 240)); // bytes 88-120
-
-    return { token: target.toLowerCase(), recipient: recipient.toLowerCase(), amount };
-  } catch {
-    return null;
+async function resolveDelegationChain(
+  context: handlerContext,
+  chainId: number,
+  delegation: DelegationTuple,
+  permissionContext?: DelegationTuple[]
+): Promise<DelegationChain> {
+  if (isRootAuthority(delegation[2])) {
+    return {
+      parent_id: undefined,
+      root_id: getDelegationId(chainId, delegation),
+      rootDelegator: delegation[1].toLowerCase(),
+      depth: 0,
+    };
   }
-}
 
-/**
- * Extract execution calldata from raw tx input
- * Searches for the execution bytes array containing the actual transfer
- */
-function extractExecutionFromInput(inputHex: string): string | null {
-  try {
-    const hex = inputHex.startsWith("0x") ? inputHex.slice(2) : inputHex;
-
-    // Look for common execution lengths (0x78 = 120 bytes for standard transfer)
-    const lengthMarkers = [
-      "0000000000000000000000000000000000000000000000000000000000000078", // 120 bytes
-      "0000000000000000000000000000000000000000000000000000000000000074", // 116 bytes
-    ];
-
-    for (const marker of lengthMarkers) {
-      const idx = hex.lastIndexOf(marker);
-      if (idx !== -1) {
-        const length = parseInt(marker, 16) * 2; // Convert to hex chars
-        const executionStart = idx + 64; // After 32-byte length
-        const executionData = hex.slice(executionStart, executionStart + length);
-
-        // Validate it looks like execution data (starts with address, not zeros)
-        if (executionData.length >= 40 && !executionData.startsWith("000000000000000000000000")) {
-          return executionData;
-        }
-      }
-    }
+  const parentLink = await context.DelegationHash.get(`${chainId}-${delegation[2].toLowerCase()}`);
+  const parent = parentLink && (await context.Delegation.get(parentLink.delegation_id));
 
-    // Fallback: search for transfer selector pattern in the data
-    const transferPattern = "a9059cbb";
-    const transferIdx = hex.lastIndexOf(transferPattern);
+  if (parent && parent.depth !== undefined) {
+    return {
+      parent_id: parent.id,
+      root_id: parent.root_id,
+      rootDelegator: parent.rootDelegator,
+      depth: parent.depth + 1,
+    };
+  }
 
-    if (transferIdx > 104) {
-      // Work backwards to find the target address (20 bytes before value + selector)
-      const executionStart = transferIdx - 104; // 52 bytes * 2
-      const executionData = hex.slice(executionStart, transferIdx + 136); // selector + to + amount
-      return executionData;
-    }
+  const index = permissionContext?.findIndex((d) => isSameDelegation(d, delegation)) ?? -1;
 
-    return null;
-  } catch {
-    return null;
+  if (permissionContext && index !== -1 && index < permissionContext.length - 1) {
+    const root = permissionContext[permissionContext.length - 1];
+    return {
+      parent_id: getDelegationId(chainId, permissionContext[index + 1]),
+      root_id: getDelegationId(chainId, root),
+      rootDelegator: root[1].toLowerCase(),
+      depth: permissionContext.length - 1 - index,
+    };
   }
+
+  // Parent not indexed yet and not in the calldata - link what we know
+  return { parent_id: parent?.id, root_id: undefined, rootDelegator: undefined, depth: undefined };
 }
 
 /**
- * Add item to array if not present
+ * The resolved fields of a chain - unresolved ones must not overwrite what is already stored
  */
-function addUnique<T>(arr: T[], item: T): T[] {
-  return arr.includes(item) ? arr : [...arr, item];
+function resolvedChainFields(chain: DelegationChain): Partial<DelegationChain> {
+  return Object.fromEntries(Object.entries(chain).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Register a delegation's hash so redelegations can find it through their authority
+ */
+function setDelegationHash(context: handlerContext, chainId: number, delegationHash: string, delegationId: string) {
+  context.DelegationHash.set({
+    id: `${chainId}-${delegationHash.toLowerCase()}`,
+    delegation_id: delegationId,
+  });
 }
 
 // =============================================================================
@@ -164,37 +213,17 @@ DelegationManager.RedeemedDelegation.handler(async ({ event, context }) => {
   const caveatsTuple = delegationTuple[3]; // Array<[enforcer, terms, args]>
   const salt = delegationTuple[4].toString();
 
-  // Extract enforcer addresses from caveats tuple
-  const enforcers = caveatsTuple.map((c) => c[0].toLowerCase());
-
   // Decode caveat terms
-  let spendingToken: string | undefined;
-  let spendingLimit: bigint | undefined;
-  let spendingPeriod: bigint | undefined;
-  let spendingStartDate: bigint | undefined;
-  let expiresAt: bigint | undefined;
-
-  for (const caveat of caveatsTuple) {
-    const enforcer = caveat[0].toLowerCase();
-    const terms = caveat[1];
-
-    if (enforcer === SPENDING_LIMIT_ENFORCER) {
-      const decoded = decodeSpendingLimitTerms(terms);
-      if (decoded) {
-        spendingToken = decoded.token;
-        spendingLimit = decoded.limit;
-        spendingPeriod = decoded.period;
-        spendingStartDate = decoded.startDate;
-      }
-    }
+  const { enforcers, spendingToken, spendingLimit, spendingPeriod, spendingStartDate, expiresAt } =
+    decodeCaveats(caveatsTuple);
 
-    if (enforcer === TIMESTAMP_ENFORCER) {
-      const decoded = decodeTimestampTerms(terms);
-      if (decoded) {
-        expiresAt = decoded;
-      }
-    }
-  }
+  // ---------------------------------------------------------------------------
+  // Entity IDs
+  // ---------------------------------------------------------------------------
+  const redemptionId = `${chainId}-${txHash}-${logIndex}`;
+  const delegationId = getDelegationId(chainId, delegationTuple);
+  const accountId = rootDelegator;
+  const agentId = redeemer;
 
   // ---------------------------------------------------------------------------
   // Decode actual execution details from tx input
@@ -203,30 +232,22 @@ DelegationManager.RedeemedDelegation.handler(async ({ event, context }) => {
   let executedToken: string | undefined;
   let executedRecipient: string | undefined;
 
-  const txInput = event.transaction.input;
-  if (txInput) {
-    const executionData = extractExecutionFromInput(txInput);
-    if (executionData) {
-      const decoded = decodeExecutionCalldata(executionData);
-      if (decoded) {
-        executedToken = decoded.token;
-        executedRecipient = decoded.recipient;
-        executedAmount = decoded.amount;
-      }
-    }
+  // Direct calls, or calls through a smart account / ERC-4337 bundle (handleOps)
+  const entries = event.transaction.input ? decodeRedemptionEntries(event.transaction.input, event.srcAddress) : null;
+  const entry = entries
+    ? findRedemptionEntry(entries, delegationTuple, await countEarlierRedemptions(context, chainId, txHash, logIndex, delegationId))
+    : null;
+
+  const decoded = entry && decodeEntrySpend(entry, spendingToken);
+  if (decoded) {
+    executedToken = decoded.token;
+    executedRecipient = decoded.recipient;
+    executedAmount = decoded.amount;
   }
 
   // Use executed amount for tracking, default to 0 if not decoded
   const amount = executedAmount ?? 0n;
 
-  // ---------------------------------------------------------------------------
-  // Entity IDs
-  // ---------------------------------------------------------------------------
-  const redemptionId = `${chainId}-${txHash}-${logIndex}`;
-  const delegationId = `${chainId}-${delegator}-${delegate}-${salt}`;
-  const accountId = rootDelegator;
-  const agentId = redeemer;
-
   // =========================================================================
   // 1. Create/Update Account (delegator)
   // =========================================================================
@@ -278,14 +299,25 @@ DelegationManager.RedeemedDelegation.handler(async ({ event, context }) => {
   // =========================================================================
   const existingDelegation = await context.Delegation.get(delegationId);
 
+  // The chain only needs resolving until it is known
+  const chain =
+    existingDelegation?.depth !== undefined
+      ? null
+      : await resolveDelegationChain(context, chainId, delegationTuple, entry?.delegations);
+
   if (existingDelegation) {
     context.Delegation.set({
       ...existingDelegation,
+      ...(chain && resolvedChainFields(chain)),
       redemptionCount: existingDelegation.redemptionCount + 1,
       totalSpent: existingDelegation.totalSpent + amount,
       lastSeenAt: timestamp,
     });
   } else {
+    const delegationHash = getDelegationHash(delegationTuple);
+    setDelegationHash(context, chainId, delegationHash, delegationId);
+    setCaveats(context, delegationId, caveatsTuple);
+
     context.Delegation.set({
       id: delegationId,
       chainId,
@@ -293,14 +325,24 @@ DelegationManager.RedeemedDelegation.handler(async ({ event, context }) => {
       delegate,
       salt,
       authority,
+      delegationHash,
       account_id: accountId,
       agent_id: agentId,
+      parent_id: chain?.parent_id,
+      root_id: chain?.root_id,
+      rootDelegator: chain?.rootDelegator ?? rootDelegator,
+      depth: chain?.depth,
       spendingToken,
       spendingLimit,
       spendingPeriod,
       spendingStartDate,
       expiresAt,
       enforcers,
+      disabled: false,
+      disabledAt: undefined,
+      disabledTxHash: undefined,
+      enabledAt: undefined,
+      enabledTxHash: undefined,
       redemptionCount: 1,
       totalSpent: amount,
       firstSeenAt: timestamp,
@@ -337,3 +379,115 @@ DelegationManager.RedeemedDelegation.handler(async ({ event, context }) => {
     blockNumber,
   });
 });
+
+// =============================================================================
+// DISABLED / ENABLED DELEGATION HANDLERS
+// =============================================================================
+
+type DelegationStatusEvent = {
+  chainId: number;
+  block: { timestamp: number };
+  transaction: { hash: string };
+  params: {
+    delegationHash: string;
+    delegation: [string, string, string, Array<[string, string, string]>, bigint, string];
+  };
+};
+
+/**
+ * Record a delegation being disabled or re-enabled by its delegator
+ * Creates the Delegation (and its Account/Agent) if it was never redeemed
+ */
+async function setDelegationDisabled(
+  event: DelegationStatusEvent,
+  context: handlerContext,
+  disabled: boolean
+): Promise<void> {
+  const chainId = event.chainId;
+  const timestamp = BigInt(event.block.timestamp);
+  const txHash = event.transaction.hash;
+
+  const delegationTuple = event.params.delegation;
+  const delegate = delegationTuple[0].toLowerCase();
+  const delegator = delegationTuple[1].toLowerCase();
+  const authority = delegationTuple[2];
+  const salt = delegationTuple[4].toString();
+
+  const delegationId = getDelegationId(chainId, delegationTuple);
+  const delegationHash = event.params.delegationHash;
+
+  const status = disabled
+    ? { disabled: true, disabledAt: timestamp, disabledTxHash: txHash }
+    : { disabled: false, enabledAt: timestamp, enabledTxHash: txHash };
+
+  const existingDelegation = await context.Delegation.get(delegationId);
+  setDelegationHash(context, chainId, delegationHash, delegationId);
+
+  if (existingDelegation) {
+    context.Delegation.set({
+      ...existingDelegation,
+      ...(existingDelegation.depth === undefined &&
+        resolvedChainFields(await resolveDelegationChain(context, chainId, delegationTuple))),
+      ...status,
+      delegationHash,
+      lastSeenAt: timestamp,
+    });
+    return;
+  }
+
+  // Never redeemed - make sure the parent entities exist
+  if (!(await context.Account.get(delegator))) {
+    context.Account.set({
+      id: delegator,
+      address: delegator,
+      totalRedemptions: 0,
+      firstSeenAt: timestamp,
+      lastActiveAt: timestamp,
+      chains: [chainId],
+    });
+  }
+
+  if (!(await context.Agent.get(delegate))) {
+    context.Agent.set({
+      id: delegate,
+      address: delegate,
+      totalRedemptions: 0,
+      firstSeenAt: timestamp,
+      lastActiveAt: timestamp,
+      chains: [chainId],
+    });
+  }
+
+  setCaveats(context, delegationId, delegationTuple[3]);
+
+  context.Delegation.set({
+    id: delegationId,
+    chainId,
+    delegator,
+    delegate,
+    salt,
+    authority,
+    account_id: delegator,
+    agent_id: delegate,
+    ...decodeCaveats(delegationTuple[3]),
+    ...(await resolveDelegationChain(context, chainId, delegationTuple)),
+    delegationHash,
+    disabledAt: undefined,
+    disabledTxHash: undefined,
+    enabledAt: undefined,
+    enabledTxHash: undefined,
+    ...status,
+    redemptionCount: 0,
+    totalSpent: 0n,
+    firstSeenAt: timestamp,
+    lastSeenAt: timestamp,
+  });
+}
+
+DelegationManager.DisabledDelegation.handler(async ({ event, context }) => {
+  await setDelegationDisabled(event, context, true);
+});
+
+DelegationManager.EnabledDelegation.handler(async ({ event, context }) => {
+  await setDelegationDisabled(event, context, false);
+});
@@ -0,0 +1,52 @@
+import { concat, encodeAbiParameters, keccak256, toHex, type Hex } from "viem";
+import type { DelegationTuple } from "./executions";
+
+// =============================================================================
+// DELEGATION HASHES
+// =============================================================================
+
+// authority of a delegation signed directly by the root delegator
+export const ROOT_AUTHORITY = "0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff";
+
+// EIP-712 type hashes used by the DelegationManager (salt is part of the hash, signature is not)
+const DELEGATION_TYPEHASH = keccak256(
+  toHex(
+    "Delegation(address delegate,address delegator,bytes32 authority,Caveat[] caveats,uint256 salt)Caveat(address enforcer,bytes terms)"
+  )
+);
+const CAVEAT_TYPEHASH = keccak256(toHex("Caveat(address enforcer,bytes terms)"));
+
+/**
+ * Delegation hash, as returned by DelegationManager.getDelegationHash
+ * A redelegation's authority is its parent's hash
+ */
+export function getDelegationHash(delegation: DelegationTuple): string {
+  const [delegate, delegator, authority, caveats, salt] = delegation;
+
+  const caveatHashes = caveats.map(([enforcer, terms]) =>
+    keccak256(
+      encodeAbiParameters(
+        [{ type: "bytes32" }, { type: "address" }, { type: "bytes32" }],
+        [CAVEAT_TYPEHASH, enforcer as Hex, keccak256(terms as Hex)]
+      )
+    )
+  );
+
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "bytes32" }, { type: "address" }, { type: "address" }, { type: "bytes32" }, { type: "bytes32" }, { type: "uint256" }],
+      [DELEGATION_TYPEHASH, delegate as Hex, delegator as Hex, authority as Hex, keccak256(concat(caveatHashes)), salt]
+    )
+  );
+}
+
+/**
+ * Delegation entity ID: {chainId}-{delegator}-{delegate}-{salt}
+ */
+export function getDelegationId(chainId: number, delegation: DelegationTuple): string {
+  return `${chainId}-${delegation[1].toLowerCase()}-${delegation[0].toLowerCase()}-${delegation[4].toString()}`;
+}
+
+export function isRootAuthority(authority: string): boolean {
+  return authority.toLowerCase() === ROOT_AUTHORITY;
+}
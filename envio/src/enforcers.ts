@@ -0,0 +1,248 @@
+import { hexToBigInt, size, slice, type Hex } from "viem";
+
+// =============================================================================
+// CAVEAT ENFORCER REGISTRY
+// =============================================================================
+
+/**
+ * Decoded caveat terms - amounts and timestamps as decimal strings (JSON safe)
+ */
+export type DecodedTerms = Record<string, string | string[]>;
+
+export interface EnforcerDecoder {
+  name: string;
+  // Throws if the terms don't match the enforcer's layout
+  decode: (terms: Hex) => DecodedTerms;
+  describe: (terms: DecodedTerms) => string;
+}
+
+export interface DecodedCaveat {
+  enforcerName: string | undefined;
+  decodedTerms: DecodedTerms | undefined;
+  summary: string | undefined;
+}
+
+const ENFORCERS = new Map<string, EnforcerDecoder>();
+
+/**
+ * Register a decoder for an enforcer deployment
+ */
+export function registerEnforcer(address: string, decoder: EnforcerDecoder): void {
+  ENFORCERS.set(address.toLowerCase(), decoder);
+}
+
+export function getEnforcerDecoder(address: string): EnforcerDecoder | undefined {
+  return ENFORCERS.get(address.toLowerCase());
+}
+
+/**
+ * Decode a caveat with its enforcer's decoder
+ * Unknown enforcers and malformed terms leave the decoded fields unset
+ */
+export function decodeCaveat(enforcer: string, terms: string): DecodedCaveat {
+  const decoder = getEnforcerDecoder(enforcer);
+  if (!decoder) return { enforcerName: undefined, decodedTerms: undefined, summary: undefined };
+
+  try {
+    const decodedTerms = decoder.decode(terms as Hex);
+    return { enforcerName: decoder.name, decodedTerms, summary: decoder.describe(decodedTerms) };
+  } catch {
+    return { enforcerName: decoder.name, decodedTerms: undefined, summary: undefined };
+  }
+}
+
+// =============================================================================
+// TERMS LAYOUT HELPERS
+// =============================================================================
+
+function assertSize(terms: Hex, expected: number) {
+  if (size(terms) !== expected) throw new Error(`Expected ${expected} bytes of terms, got ${size(terms)}`);
+}
+
+function uint(terms: Hex, start: number, length: number): string {
+  return hexToBigInt(slice(terms, start, start + length)).toString();
+}
+
+function address(terms: Hex, start: number): string {
+  return slice(terms, start, start + 20).toLowerCase();
+}
+
+// Packed list of fixed-size items (addresses, selectors)
+function packed(terms: Hex, itemSize: number): string[] {
+  if (size(terms) === 0 || size(terms) % itemSize !== 0) throw new Error("Invalid packed terms length");
+  return Array.from({ length: size(terms) / itemSize }, (_, i) => slice(terms, i * itemSize, (i + 1) * itemSize).toLowerCase());
+}
+
+function timeWindow(after: string, before: string, unit: string): string {
+  const bounds = [after !== "0" && `after ${unit} ${after}`, before !== "0" && `before ${unit} ${before}`].filter(Boolean);
+  return bounds.length > 0 ? `Valid ${bounds.join(" and ")}` : "No time limit";
+}
+
+// =============================================================================
+// METAMASK DELEGATION FRAMEWORK ENFORCERS (v1.3.0, same address on every chain)
+// =============================================================================
+
+registerEnforcer("0x7F20f61b1f09b08D970938F6fa563634d65c4EeB", {
+  name: "AllowedTargetsEnforcer",
+  decode: (terms) => ({ targets: packed(terms, 20) }),
+  describe: (t) => `Only calls to ${(t.targets as string[]).join(", ")}`,
+});
+
+registerEnforcer("0x2c21fD0Cb9DC8445CB3fb0DC5E7Bb0Aca01842B5", {
+  name: "AllowedMethodsEnforcer",
+  decode: (terms) => ({ selectors: packed(terms, 4) }),
+  describe: (t) => `Only methods ${(t.selectors as string[]).join(", ")}`,
+});
+
+registerEnforcer("0xc2b0d624c1c4319760C96503BA27C347F3260f55", {
+  name: "AllowedCalldataEnforcer",
+  decode: (terms) => ({ startIndex: uint(terms, 0, 32), value: slice(terms, 32) }),
+  describe: (t) => `Calldata at byte ${t.startIndex} must be ${t.value}`,
+});
+
+registerEnforcer("0x99F2e9bF15ce5eC84685604836F71aB835DBBdED", {
+  name: "ExactCalldataEnforcer",
+  decode: (terms) => ({ calldata: terms.toLowerCase() }),
+  describe: (t) => `Calldata must be exactly ${t.calldata}`,
+});
+
+registerEnforcer("0x92Bf12322527cAA612fd31a0e810472BBB106A8F", {
+  name: "ValueLteEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 32);
+    return { maxValue: uint(terms, 0, 32) };
+  },
+  describe: (t) => `At most ${t.maxValue} wei of native token per call`,
+});
+
+registerEnforcer("0xF71af580b9c3078fbc2BBF16FbB8EEd82b330320", {
+  name: "NativeTokenTransferAmountEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 32);
+    return { allowance: uint(terms, 0, 32) };
+  },
+  describe: (t) => `At most ${t.allowance} wei of native token in total`,
+});
+
+registerEnforcer("0x9BC0FAf4Aca5AE429F4c06aEEaC517520CB16BD9", {
+  name: "NativeTokenPeriodTransferEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 96);
+    return { periodAmount: uint(terms, 0, 32), periodDuration: uint(terms, 32, 32), startDate: uint(terms, 64, 32) };
+  },
+  describe: (t) => `At most ${t.periodAmount} wei of native token every ${t.periodDuration}s, from ${t.startDate}`,
+});
+
+registerEnforcer("0xD10b97905a320b13a0608f7E9cC506b56747df19", {
+  name: "NativeTokenStreamingEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 128);
+    return {
+      initialAmount: uint(terms, 0, 32),
+      maxAmount: uint(terms, 32, 32),
+      amountPerSecond: uint(terms, 64, 32),
+      startTime: uint(terms, 96, 32),
+    };
+  },
+  describe: (t) =>
+    `Native token streaming ${t.amountPerSecond} wei/s after ${t.initialAmount} wei up front, from ${t.startTime}, at most ${t.maxAmount} wei`,
+});
+
+registerEnforcer("0xf100b0819427117EcF76Ed94B358B1A5b5C6D2Fc", {
+  name: "ERC20TransferAmountEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 52);
+    return { token: address(terms, 0), maxAmount: uint(terms, 20, 32) };
+  },
+  describe: (t) => `At most ${t.maxAmount} of ${t.token} in total`,
+});
+
+registerEnforcer("0x474e3Ae7E169e940607cC624Da8A15Eb120139aB", {
+  name: "ERC20PeriodTransferEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 116);
+    return {
+      token: address(terms, 0),
+      periodAmount: uint(terms, 20, 32),
+      periodDuration: uint(terms, 52, 32),
+      startDate: uint(terms, 84, 32),
+    };
+  },
+  describe: (t) => `At most ${t.periodAmount} of ${t.token} every ${t.periodDuration}s, from ${t.startDate}`,
+});
+
+registerEnforcer("0x56c97aE02f233B29fa03502Ecc0457266d9be00e", {
+  name: "ERC20StreamingEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 148);
+    return {
+      token: address(terms, 0),
+      initialAmount: uint(terms, 20, 32),
+      maxAmount: uint(terms, 52, 32),
+      amountPerSecond: uint(terms, 84, 32),
+      startTime: uint(terms, 116, 32),
+    };
+  },
+  describe: (t) =>
+    `${t.token} streaming ${t.amountPerSecond}/s after ${t.initialAmount} up front, from ${t.startTime}, at most ${t.maxAmount}`,
+});
+
+registerEnforcer("0x04658B29F6b82ed55274221a06Fc97D318E25416", {
+  name: "LimitedCallsEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 32);
+    return { limit: uint(terms, 0, 32) };
+  },
+  describe: (t) => `At most ${t.limit} redemptions`,
+});
+
+registerEnforcer("0xE144b0b2618071B4E56f746313528a669c7E65c5", {
+  name: "RedeemerEnforcer",
+  decode: (terms) => ({ redeemers: packed(terms, 20) }),
+  describe: (t) => `Only redeemable by ${(t.redeemers as string[]).join(", ")}`,
+});
+
+registerEnforcer("0xDE4f2FAC4B3D87A1d9953Ca5FC09FCa7F366254f", {
+  name: "NonceEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 32);
+    return { nonce: uint(terms, 0, 32) };
+  },
+  describe: (t) => `Valid while the delegator's nonce is ${t.nonce}`,
+});
+
+registerEnforcer("0x1046bb45C8d673d4ea75321280DB34899413c069", {
+  name: "TimestampEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 32);
+    return { afterThreshold: uint(terms, 0, 16), beforeThreshold: uint(terms, 16, 16) };
+  },
+  describe: (t) => timeWindow(t.afterThreshold as string, t.beforeThreshold as string, "timestamp"),
+});
+
+registerEnforcer("0x5d9818dF0AE3f66e9c3D0c5029DAF99d1823ca6c", {
+  name: "BlockNumberEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 32);
+    return { afterThreshold: uint(terms, 0, 16), beforeThreshold: uint(terms, 16, 16) };
+  },
+  describe: (t) => timeWindow(t.afterThreshold as string, t.beforeThreshold as string, "block"),
+});
+
+registerEnforcer("0xC8B5D93463c893401094cc70e66A206fb5987997", {
+  name: "IdEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 32);
+    return { id: uint(terms, 0, 32) };
+  },
+  describe: (t) => `One of the delegations sharing id ${t.id}`,
+});
+
+registerEnforcer("0x7EEf9734E7092032B5C56310Eb9BbD1f4A524681", {
+  name: "OwnershipTransferEnforcer",
+  decode: (terms) => {
+    assertSize(terms, 20);
+    return { contract: address(terms, 0) };
+  },
+  describe: (t) => `Only ownership transfers of ${t.contract}`,
+});
@@ -0,0 +1,302 @@
+import { decodeAbiParameters, decodeFunctionData, hexToBigInt, parseAbi, size, slice, type Hex } from "viem";
+
+// =============================================================================
+// REDEMPTION CALLDATA
+// =============================================================================
+
+/**
+ * redeemDelegations(bytes[] permissionContexts, bytes32[] modes, bytes[] executionCallDatas)
+ * Entry i of each array is one redemption: permissionContexts[i] is abi.encode(Delegation[])
+ * ordered leaf first, modes[i] is an ERC-7579 mode and executionCallDatas[i] the execution(s)
+ */
+const DELEGATION_MANAGER_ABI = parseAbi([
+  "function redeemDelegations(bytes[] permissionContexts, bytes32[] modes, bytes[] executionCallDatas)",
+]);
+
+const DELEGATIONS_ABI = [
+  {
+    type: "tuple[]",
+    components: [
+      { name: "delegate", type: "address" },
+      { name: "delegator", type: "address" },
+      { name: "authority", type: "bytes32" },
+      {
+        name: "caveats",
+        type: "tuple[]",
+        components: [
+          { name: "enforcer", type: "address" },
+          { name: "terms", type: "bytes" },
+          { name: "args", type: "bytes" },
+        ],
+      },
+      { name: "salt", type: "uint256" },
+      { name: "signature", type: "bytes" },
+    ],
+  },
+] as const;
+
+// Wrappers a redeemDelegations call can arrive in when the redeemer is a smart account:
+// EntryPoint v0.6 / v0.7 handleOps, ERC-7579 execute, and SimpleAccount-style execute/executeBatch
+const WRAPPER_ABI = parseAbi([
+  "function handleOps((address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, uint256 verificationGasLimit, uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, bytes paymasterAndData, bytes signature)[] ops, address beneficiary)",
+  "function handleOps((address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)[] ops, address beneficiary)",
+  "function execute(bytes32 mode, bytes executionCalldata)",
+  "function execute(address dest, uint256 value, bytes func)",
+  "function executeBatch(address[] dest, uint256[] value, bytes[] func)",
+  "function executeBatch((address target, uint256 value, bytes data)[] calls)",
+]);
+
+// handleOps -> execute -> redeemDelegations, with room for one more level of nesting
+const MAX_UNWRAP_DEPTH = 4;
+
+// Batch mode: abi.encode(Execution[])
+const EXECUTIONS_ABI = [
+  {
+    type: "tuple[]",
+    components: [
+      { name: "target", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "callData", type: "bytes" },
+    ],
+  },
+] as const;
+
+// Calls an execution can make with the delegator's funds
+const EXECUTION_CALLS_ABI = parseAbi([
+  "function transfer(address to, uint256 amount)",
+  "function approve(address spender, uint256 amount)",
+  "function transferFrom(address from, address to, uint256 amount)",
+  "function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)",
+]);
+
+// ERC-7579 call types (first byte of the mode)
+const CALLTYPE_SINGLE = "0x00";
+const CALLTYPE_BATCH = "0x01";
+
+// ERC-7528 address for the chain's native token
+export const NATIVE_TOKEN = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+export type DelegationTuple = readonly [string, string, string, ReadonlyArray<readonly [string, string, string]>, bigint, string];
+
+export interface Execution {
+  target: string;
+  value: bigint;
+  callData: Hex;
+}
+
+export interface DecodedExecution {
+  token: string;
+  recipient: string;
+  amount: bigint;
+}
+
+/**
+ * One entry of a redeemDelegations call
+ */
+export interface RedemptionEntry {
+  delegations: DelegationTuple[];
+  executions: Execution[];
+}
+
+// =============================================================================
+// DECODERS
+// =============================================================================
+
+/**
+ * Decode the redeemDelegations calls in a transaction's input into their entries, in call order
+ * Unwraps ERC-4337 bundles and smart account executions; when delegationManager is
+ * given, only calls made to it are decoded.
+ * Returns null if the input contains no redeemDelegations call
+ */
+export function decodeRedemptionEntries(input: string, delegationManager?: string): RedemptionEntry[] | null {
+  const entries = unwrapCalls(input as Hex, 0).flatMap((call) => {
+    if (delegationManager && call.target && call.target !== delegationManager.toLowerCase()) return [];
+    return decodeRedeemDelegations(call.data) ?? [];
+  });
+
+  return entries.length > 0 ? entries : null;
+}
+
+/**
+ * The calls wrapped calldata ends up making, in order
+ * target is undefined for the outermost call (made to the transaction's own target)
+ */
+function unwrapCalls(data: Hex, depth: number, target?: string): Array<{ target?: string; data: Hex }> {
+  if (depth > MAX_UNWRAP_DEPTH) return [];
+
+  const inner = decodeWrappedCalls(data);
+  if (!inner) return [{ target, data }];
+
+  return inner.flatMap((call) => unwrapCalls(call.callData, depth + 1, call.target));
+}
+
+/**
+ * Calls made by a wrapper (a userOp's callData is a call on its sender)
+ * Returns null if the data is not a known wrapper
+ */
+function decodeWrappedCalls(data: Hex): Execution[] | null {
+  let decoded;
+  try {
+    decoded = decodeFunctionData({ abi: WRAPPER_ABI, data });
+  } catch {
+    return null;
+  }
+
+  const { functionName, args } = decoded;
+
+  if (functionName === "handleOps") {
+    return args[0].map((op) => ({ target: op.sender.toLowerCase(), value: 0n, callData: op.callData }));
+  }
+
+  if (functionName === "execute") {
+    return args.length === 2
+      ? safeDecodeExecutions(args[0], args[1])
+      : [{ target: args[0].toLowerCase(), value: args[1], callData: args[2] }];
+  }
+
+  return args.length === 3
+    ? args[0].map((dest, i) => ({ target: dest.toLowerCase(), value: args[1][i], callData: args[2][i] }))
+    : args[0].map((call) => ({ target: call.target.toLowerCase(), value: call.value, callData: call.data }));
+}
+
+function safeDecodeExecutions(mode: Hex, executionCallData: Hex): Execution[] {
+  try {
+    return decodeExecutions(mode, executionCallData);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Decode a redeemDelegations call into its entries
+ * Returns null if the data is not a redeemDelegations call
+ */
+function decodeRedeemDelegations(input: Hex): RedemptionEntry[] | null {
+  try {
+    const { args } = decodeFunctionData({ abi: DELEGATION_MANAGER_ABI, data: input });
+    const [permissionContexts, modes, executionCallDatas] = args;
+
+    return permissionContexts.map((permissionContext, i) => ({
+      delegations: decodePermissionContext(permissionContext),
+      executions: decodeExecutions(modes[i], executionCallDatas[i]),
+    }));
+  } catch {
+    return null;
+  }
+}
+
+function decodePermissionContext(permissionContext: Hex): DelegationTuple[] {
+  // Self-authorized redemptions have an empty context and emit no RedeemedDelegation
+  if (size(permissionContext) === 0) return [];
+
+  const [delegations] = decodeAbiParameters(DELEGATIONS_ABI, permissionContext);
+  return delegations.map((d) => [
+    d.delegate,
+    d.delegator,
+    d.authority,
+    d.caveats.map((c) => [c.enforcer, c.terms, c.args] as const),
+    d.salt,
+    d.signature,
+  ]);
+}
+
+/**
+ * Decode execution calldata according to its mode
+ * - single: abi.encodePacked(target, value, callData)
+ * - batch:  abi.encode(Execution[])
+ * Other call types (delegatecall, try modes we don't know) decode to no executions
+ */
+function decodeExecutions(mode: Hex, executionCallData: Hex): Execution[] {
+  const callType = slice(mode, 0, 1);
+
+  if (callType === CALLTYPE_SINGLE) {
+    if (size(executionCallData) < 52) return [];
+    return [
+      {
+        target: slice(executionCallData, 0, 20).toLowerCase(),
+        value: hexToBigInt(slice(executionCallData, 20, 52)),
+        callData: size(executionCallData) > 52 ? slice(executionCallData, 52) : "0x",
+      },
+    ];
+  }
+
+  if (callType === CALLTYPE_BATCH) {
+    const [executions] = decodeAbiParameters(EXECUTIONS_ABI, executionCallData);
+    return executions.map((e) => ({ target: e.target.toLowerCase(), value: e.value, callData: e.callData }));
+  }
+
+  return [];
+}
+
+/**
+ * Decode what a single execution moves: transfer, approve, transferFrom,
+ * Aave supply, or native value sent along with the call
+ */
+export function decodeExecution(execution: Execution): DecodedExecution | null {
+  if (execution.callData !== "0x") {
+    try {
+      const { functionName, args } = decodeFunctionData({ abi: EXECUTION_CALLS_ABI, data: execution.callData });
+
+      switch (functionName) {
+        case "transfer":
+        case "approve":
+          return { token: execution.target, recipient: args[0].toLowerCase(), amount: args[1] };
+        case "transferFrom":
+          return { token: execution.target, recipient: args[1].toLowerCase(), amount: args[2] };
+        case "supply":
+          return { token: args[0].toLowerCase(), recipient: args[2].toLowerCase(), amount: args[1] };
+      }
+    } catch {
+      // Unknown call - only its native value (if any) is tracked
+    }
+  }
+
+  if (execution.value > 0n) {
+    return { token: NATIVE_TOKEN, recipient: execution.target, amount: execution.value };
+  }
+
+  return null;
+}
+
+/**
+ * Decode what an entry's executions spent
+ * In batch mode the first execution moving the permission's token is used
+ * (e.g. the approve of approve + swap), else the first one we can decode
+ */
+export function decodeEntrySpend(entry: RedemptionEntry, spendingToken?: string): DecodedExecution | null {
+  const decoded = entry.executions
+    .map(decodeExecution)
+    .filter((execution): execution is DecodedExecution => execution !== null);
+
+  return decoded.find((execution) => execution.token === spendingToken?.toLowerCase()) ?? decoded[0] ?? null;
+}
+
+// =============================================================================
+// MATCHING LOGS TO ENTRIES
+// =============================================================================
+
+export function isSameDelegation(a: DelegationTuple, b: DelegationTuple): boolean {
+  return (
+    a[0].toLowerCase() === b[0].toLowerCase() &&
+    a[1].toLowerCase() === b[1].toLowerCase() &&
+    a[2].toLowerCase() === b[2].toLowerCase() &&
+    a[4] === b[4]
+  );
+}
+
+/**
+ * Find the entry a RedeemedDelegation log belongs to
+ * The DelegationManager emits one log per delegation in each entry's chain, in entry
+ * order. The log's delegation identifies the entry; when the same delegation is
+ * redeemed in several entries, occurrence picks the n-th of them (0-based).
+ */
+export function findRedemptionEntry(
+  entries: RedemptionEntry[],
+  delegation: DelegationTuple,
+  occurrence: number
+): RedemptionEntry | null {
+  const matches = entries.filter((entry) => entry.delegations.some((d) => isSameDelegation(d, delegation)));
+  if (matches.length === 0) return null;
+
+  return matches[Math.min(occurrence, matches.length - 1)];
+}
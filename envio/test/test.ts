@@ -1,7 +1,61 @@
 import assert from "assert";
 import { TestHelpers } from "generated";
+import { concat, encodeAbiParameters, encodeFunctionData, numberToHex, pad, parseAbi, parseAbiParameters, type Hex } from "viem";
+import { getDelegationHash } from "../src/delegations";
 const { MockDb, DelegationManager, Addresses } = TestHelpers;
 
+// =============================================================================
+// redeemDelegations calldata helpers
+// =============================================================================
+
+type Delegation = [string, string, string, [], bigint, string];
+
+const REDEEM_ABI = parseAbi([
+  "function redeemDelegations(bytes[] permissionContexts, bytes32[] modes, bytes[] executionCallDatas)",
+  "function transfer(address to, uint256 amount)",
+  "function approve(address spender, uint256 amount)",
+  "function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)",
+  "function execute(bytes32 mode, bytes executionCalldata)",
+  "function handleOps((address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)[] ops, address beneficiary)",
+]);
+
+const DELEGATION_MANAGER = "0xdb9B1e94B5b69Df7e401DDbedE43491141047dB3";
+
+const SINGLE_MODE = pad("0x00", { dir: "right", size: 32 });
+const BATCH_MODE = pad("0x01", { dir: "right", size: 32 });
+
+const encodeContext = (delegations: Delegation[]) =>
+  encodeAbiParameters(
+    parseAbiParameters(
+      "(address delegate, address delegator, bytes32 authority, (address enforcer, bytes terms, bytes args)[] caveats, uint256 salt, bytes signature)[]"
+    ),
+    [
+      delegations.map(([delegate, delegator, authority, caveats, salt, signature]) => ({
+        delegate: delegate as Hex,
+        delegator: delegator as Hex,
+        authority: authority as Hex,
+        caveats,
+        salt,
+        signature: signature as Hex,
+      })),
+    ]
+  );
+
+const encodeSingle = (target: string, value: bigint, callData: Hex) =>
+  concat([target as Hex, numberToHex(value, { size: 32 }), callData]);
+
+const encodeBatch = (executions: Array<{ target: string; value: bigint; callData: Hex }>) =>
+  encodeAbiParameters(parseAbiParameters("(address target, uint256 value, bytes callData)[]"), [
+    executions.map((e) => ({ target: e.target as Hex, value: e.value, callData: e.callData })),
+  ]);
+
+const encodeRedeem = (entries: Array<{ delegations: Delegation[]; mode: Hex; executionCallData: Hex }>) =>
+  encodeFunctionData({
+    abi: REDEEM_ABI,
+    functionName: "redeemDelegations",
+    args: [entries.map((e) => encodeContext(e.delegations)), entries.map((e) => e.mode), entries.map((e) => e.executionCallData)],
+  });
+
 describe("SpendHQ Delegation Indexer tests", () => {
   it("A RedeemedDelegation event creates Redemption, Delegation, Account, and Agent entities", async () => {
     // Initializing the mock database
@@ -141,4 +195,425 @@ describe("SpendHQ Delegation Indexer tests", () => {
     const expectedDelegationId = `${mockEvent.chainId}-${delegatorAddress.toLowerCase()}-${delegateAddress.toLowerCase()}-99999`;
     assert.equal(redemptionEntity?.delegation_id, expectedDelegationId);
   });
+
+  it("A DisabledDelegation event marks a never-redeemed delegation as disabled", async () => {
+    const mockDbInitial = MockDb.createMockDb();
+
+    const delegatorAddress = Addresses.defaultAddress;
+    const delegateAddress = "0x1234567890123456789012345678901234567890";
+    const delegationHash = "0x1111111111111111111111111111111111111111111111111111111111111111";
+
+    const mockEvent = DelegationManager.DisabledDelegation.createMockEvent({
+      delegationHash,
+      delegator: delegatorAddress,
+      delegate: delegateAddress,
+      delegation: [
+        delegateAddress,
+        delegatorAddress,
+        "0x0000000000000000000000000000000000000000000000000000000000000000",
+        [],
+        BigInt(4242),
+        "0x",
+      ],
+    });
+
+    const updatedMockDb = await DelegationManager.DisabledDelegation.processEvent({
+      event: mockEvent,
+      mockDb: mockDbInitial,
+    });
+
+    const delegationId = `${mockEvent.chainId}-${delegatorAddress.toLowerCase()}-${delegateAddress.toLowerCase()}-4242`;
+    const delegationEntity = updatedMockDb.entities.Delegation.get(delegationId);
+    assert.ok(delegationEntity, "Delegation entity should be created");
+    assert.equal(delegationEntity?.disabled, true);
+    assert.equal(delegationEntity?.disabledAt, BigInt(mockEvent.block.timestamp));
+    assert.equal(delegationEntity?.disabledTxHash, mockEvent.transaction.hash);
+    assert.equal(delegationEntity?.delegationHash, delegationHash);
+    assert.equal(delegationEntity?.redemptionCount, 0);
+
+    // Parent entities exist for the relationships
+    assert.ok(updatedMockDb.entities.Account.get(delegatorAddress.toLowerCase()), "Account entity should be created");
+    assert.ok(updatedMockDb.entities.Agent.get(delegateAddress.toLowerCase()), "Agent entity should be created");
+  });
+
+  it("An EnabledDelegation event re-enables a disabled delegation and keeps its stats", async () => {
+    const mockDbInitial = MockDb.createMockDb();
+
+    const delegatorAddress = Addresses.defaultAddress;
+    const delegateAddress = "0x1234567890123456789012345678901234567890";
+    const redeemerAddress = "0x9876543210987654321098765432109876543210";
+    const delegationHash = "0x2222222222222222222222222222222222222222222222222222222222222222";
+
+    const delegationTuple: [string, string, string, [], bigint, string] = [
+      delegateAddress,
+      delegatorAddress,
+      "0x0000000000000000000000000000000000000000000000000000000000000000",
+      [],
+      BigInt(777),
+      "0x",
+    ];
+
+    const mockDb1 = await DelegationManager.RedeemedDelegation.processEvent({
+      event: DelegationManager.RedeemedDelegation.createMockEvent({
+        rootDelegator: delegatorAddress,
+        redeemer: redeemerAddress,
+        delegation: delegationTuple,
+      }),
+      mockDb: mockDbInitial,
+    });
+
+    const mockDb2 = await DelegationManager.DisabledDelegation.processEvent({
+      event: DelegationManager.DisabledDelegation.createMockEvent({
+        delegationHash,
+        delegator: delegatorAddress,
+        delegate: delegateAddress,
+        delegation: delegationTuple,
+      }),
+      mockDb: mockDb1,
+    });
+
+    const enableEvent = DelegationManager.EnabledDelegation.createMockEvent({
+      delegationHash,
+      delegator: delegatorAddress,
+      delegate: delegateAddress,
+      delegation: delegationTuple,
+    });
+
+    const mockDb3 = await DelegationManager.EnabledDelegation.processEvent({
+      event: enableEvent,
+      mockDb: mockDb2,
+    });
+
+    const delegationId = `${enableEvent.chainId}-${delegatorAddress.toLowerCase()}-${delegateAddress.toLowerCase()}-777`;
+
+    const disabledEntity = mockDb2.entities.Delegation.get(delegationId);
+    assert.equal(disabledEntity?.disabled, true);
+
+    const delegationEntity = mockDb3.entities.Delegation.get(delegationId);
+    assert.equal(delegationEntity?.disabled, false);
+    assert.equal(delegationEntity?.enabledTxHash, enableEvent.transaction.hash);
+    assert.equal(delegationEntity?.redemptionCount, 1);
+    assert.equal(delegationEntity?.agent_id, redeemerAddress.toLowerCase());
+  });
+
+  describe("Execution decoding", () => {
+    const delegatorAddress = Addresses.defaultAddress;
+    const delegateAddress = "0x1234567890123456789012345678901234567890";
+    const redeemerAddress = "0x9876543210987654321098765432109876543210";
+    const token = "0x036cbd53842c5426634e7929541ec2318f3dcf7e";
+    const recipient = "0x5555555555555555555555555555555555555555";
+    const txHash = "0xabababababababababababababababababababababababababababababababab";
+    const ROOT = "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+    const delegation = (salt: bigint): Delegation => [delegateAddress, delegatorAddress, ROOT, [], salt, "0x"];
+
+    const redeem = async (mockDb: ReturnType<typeof MockDb.createMockDb>, salt: bigint, input: Hex, logIndex = 0) => {
+      const event = DelegationManager.RedeemedDelegation.createMockEvent({
+        rootDelegator: delegatorAddress,
+        redeemer: redeemerAddress,
+        delegation: delegation(salt),
+        mockEventData: { srcAddress: DELEGATION_MANAGER, logIndex, transaction: { hash: txHash, input } },
+      });
+      const updatedMockDb = await DelegationManager.RedeemedDelegation.processEvent({ event, mockDb });
+      return { mockDb: updatedMockDb, redemption: updatedMockDb.entities.Redemption.get(`${event.chainId}-${txHash}-${logIndex}`) };
+    };
+
+    it("A single-mode transfer is decoded into executedToken, executedAmount and executedRecipient", async () => {
+      const input = encodeRedeem([
+        {
+          delegations: [delegation(1n)],
+          mode: SINGLE_MODE,
+          executionCallData: encodeSingle(token, 0n, encodeFunctionData({ abi: REDEEM_ABI, functionName: "transfer", args: [recipient, 1000n] })),
+        },
+      ]);
+
+      const { redemption } = await redeem(MockDb.createMockDb(), 1n, input);
+      assert.equal(redemption?.executedToken, token);
+      assert.equal(redemption?.executedRecipient, recipient);
+      assert.equal(redemption?.executedAmount, 1000n);
+    });
+
+    it("Each log in a multi-context call is matched to its own execution", async () => {
+      const router = "0x2626664c2603336e57b271c5c0b26f421741e481";
+      const pool = "0x07eb1be33e7bbb0ad00ba2bf1a0da21c39ed6f15";
+      const input = encodeRedeem([
+        {
+          // approve + swap in batch mode
+          delegations: [delegation(1n)],
+          mode: BATCH_MODE,
+          executionCallData: encodeBatch([
+            { target: token, value: 0n, callData: encodeFunctionData({ abi: REDEEM_ABI, functionName: "approve", args: [router, 250n] }) },
+            { target: router, value: 0n, callData: "0x04e45aaf" },
+          ]),
+        },
+        {
+          // Aave supply, called on the pool
+          delegations: [delegation(2n)],
+          mode: SINGLE_MODE,
+          executionCallData: encodeSingle(
+            pool,
+            0n,
+            encodeFunctionData({ abi: REDEEM_ABI, functionName: "supply", args: [token, 700n, delegatorAddress as Hex, 0] })
+          ),
+        },
+        {
+          // Native value
+          delegations: [delegation(3n)],
+          mode: SINGLE_MODE,
+          executionCallData: encodeSingle(recipient, 5n, "0x"),
+        },
+      ]);
+
+      const first = await redeem(MockDb.createMockDb(), 1n, input, 0);
+      const second = await redeem(first.mockDb, 2n, input, 1);
+      const third = await redeem(second.mockDb, 3n, input, 2);
+
+      assert.equal(first.redemption?.executedAmount, 250n);
+      assert.equal(first.redemption?.executedRecipient, router);
+
+      assert.equal(second.redemption?.executedToken, token);
+      assert.equal(second.redemption?.executedAmount, 700n);
+      assert.equal(second.redemption?.executedRecipient, delegatorAddress.toLowerCase());
+
+      assert.equal(third.redemption?.executedToken, "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee");
+      assert.equal(third.redemption?.executedAmount, 5n);
+    });
+
+    it("Repeated redemptions of the same delegation are matched in order", async () => {
+      const transfer = (amount: bigint) =>
+        encodeSingle(token, 0n, encodeFunctionData({ abi: REDEEM_ABI, functionName: "transfer", args: [recipient, amount] }));
+      const input = encodeRedeem([
+        { delegations: [delegation(1n)], mode: SINGLE_MODE, executionCallData: transfer(100n) },
+        { delegations: [delegation(1n)], mode: SINGLE_MODE, executionCallData: transfer(200n) },
+      ]);
+
+      const first = await redeem(MockDb.createMockDb(), 1n, input, 0);
+      const second = await redeem(first.mockDb, 1n, input, 1);
+
+      assert.equal(first.redemption?.executedAmount, 100n);
+      assert.equal(second.redemption?.executedAmount, 200n);
+
+      const delegationEntity = second.mockDb.entities.Delegation.get(`${first.redemption?.chainId}-${delegatorAddress.toLowerCase()}-${delegateAddress}-1`);
+      assert.equal(delegationEntity?.totalSpent, 300n);
+    });
+
+    it("Repeated redemptions are matched in order when other logs sit between them", async () => {
+      const transfer = (amount: bigint) =>
+        encodeSingle(token, 0n, encodeFunctionData({ abi: REDEEM_ABI, functionName: "transfer", args: [recipient, amount] }));
+      const input = encodeRedeem([
+        { delegations: [delegation(1n)], mode: SINGLE_MODE, executionCallData: transfer(100n) },
+        { delegations: [delegation(1n)], mode: SINGLE_MODE, executionCallData: transfer(200n) },
+        { delegations: [delegation(1n)], mode: SINGLE_MODE, executionCallData: transfer(300n) },
+      ]);
+
+      // Token Transfer logs are emitted between the RedeemedDelegation logs
+      const first = await redeem(MockDb.createMockDb(), 1n, input, 1);
+      const second = await redeem(first.mockDb, 1n, input, 3);
+      const third = await redeem(second.mockDb, 1n, input, 5);
+
+      assert.equal(first.redemption?.executedAmount, 100n);
+      assert.equal(second.redemption?.executedAmount, 200n);
+      assert.equal(third.redemption?.executedAmount, 300n);
+    });
+
+    it("A redemption sent through an ERC-4337 bundle is unwrapped from handleOps and execute", async () => {
+      const redeemCall = encodeRedeem([
+        {
+          delegations: [delegation(1n)],
+          mode: SINGLE_MODE,
+          executionCallData: encodeSingle(token, 0n, encodeFunctionData({ abi: REDEEM_ABI, functionName: "transfer", args: [recipient, 42n] })),
+        },
+      ]);
+
+      // Smart account redeemer: execute(single mode, DelegationManager.redeemDelegations(...))
+      const accountCall = encodeFunctionData({
+        abi: REDEEM_ABI,
+        functionName: "execute",
+        args: [SINGLE_MODE, encodeSingle(DELEGATION_MANAGER, 0n, redeemCall)],
+      });
+
+      const userOp = {
+        sender: redeemerAddress as Hex,
+        nonce: 0n,
+        initCode: "0x" as Hex,
+        callData: accountCall,
+        accountGasLimits: pad("0x", { size: 32 }),
+        preVerificationGas: 0n,
+        gasFees: pad("0x", { size: 32 }),
+        paymasterAndData: "0x" as Hex,
+        signature: "0x" as Hex,
+      };
+
+      const input = encodeFunctionData({ abi: REDEEM_ABI, functionName: "handleOps", args: [[userOp], recipient] });
+
+      const { redemption } = await redeem(MockDb.createMockDb(), 1n, input);
+      assert.equal(redemption?.executedToken, token);
+      assert.equal(redemption?.executedRecipient, recipient);
+      assert.equal(redemption?.executedAmount, 42n);
+    });
+
+    it("Execution details stay empty when the input is not a redeemDelegations call", async () => {
+      const { redemption } = await redeem(MockDb.createMockDb(), 1n, "0xdeadbeef");
+      assert.ok(redemption, "Redemption entity should be created");
+      assert.equal(redemption?.executedAmount, undefined);
+    });
+  });
+
+  describe("Delegation chains", () => {
+    const userAddress = Addresses.defaultAddress;
+    const agentAddress = "0x1234567890123456789012345678901234567890";
+    const subAgentAddress = "0x9876543210987654321098765432109876543210";
+    const ROOT_AUTHORITY = "0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff";
+
+    // user -> agent, then agent -> sub-agent
+    const rootDelegation: Delegation = [agentAddress, userAddress, ROOT_AUTHORITY, [], 1n, "0x"];
+    const rootHash = getDelegationHash(rootDelegation);
+    const subDelegation: Delegation = [subAgentAddress, agentAddress, rootHash, [], 2n, "0x"];
+
+    const redeem = (mockDb: ReturnType<typeof MockDb.createMockDb>, delegation: Delegation, logIndex: number, input?: Hex) =>
+      DelegationManager.RedeemedDelegation.processEvent({
+        event: DelegationManager.RedeemedDelegation.createMockEvent({
+          rootDelegator: userAddress,
+          redeemer: subAgentAddress,
+          delegation,
+          mockEventData: { chainId: 84532, logIndex, transaction: { input: input ?? "0x" } },
+        }),
+        mockDb,
+      });
+
+    const rootId = `84532-${userAddress.toLowerCase()}-${agentAddress}-1`;
+    const subId = `84532-${agentAddress}-${subAgentAddress}-2`;
+
+    it("A root delegation is stored with its hash at depth 0", async () => {
+      const mockDb = await redeem(MockDb.createMockDb(), rootDelegation, 0);
+
+      const delegationEntity = mockDb.entities.Delegation.get(rootId);
+      assert.equal(delegationEntity?.delegationHash, rootHash);
+      assert.equal(delegationEntity?.depth, 0);
+      assert.equal(delegationEntity?.root_id, rootId);
+      assert.equal(delegationEntity?.parent_id, undefined);
+      assert.equal(mockDb.entities.DelegationHash.get(`84532-${rootHash}`)?.delegation_id, rootId);
+    });
+
+    it("A redelegation is linked to its parent through authority", async () => {
+      const mockDb1 = await redeem(MockDb.createMockDb(), rootDelegation, 0);
+      const mockDb2 = await redeem(mockDb1, subDelegation, 0);
+
+      const delegationEntity = mockDb2.entities.Delegation.get(subId);
+      assert.equal(delegationEntity?.parent_id, rootId);
+      assert.equal(delegationEntity?.root_id, rootId);
+      assert.equal(delegationEntity?.rootDelegator, userAddress.toLowerCase());
+      assert.equal(delegationEntity?.depth, 1);
+    });
+
+    it("A redelegation logged before its parent is linked through the redeemed permission context", async () => {
+      const input = encodeRedeem([
+        { delegations: [subDelegation, rootDelegation], mode: SINGLE_MODE, executionCallData: encodeSingle(agentAddress, 1n, "0x") },
+      ]);
+
+      // Leaf first: the parent is not indexed yet when the sub-delegation is processed
+      const mockDb1 = await redeem(MockDb.createMockDb(), subDelegation, 0, input);
+      const mockDb2 = await redeem(mockDb1, rootDelegation, 1, input);
+
+      const subEntity = mockDb2.entities.Delegation.get(subId);
+      assert.equal(subEntity?.parent_id, rootId);
+      assert.equal(subEntity?.root_id, rootId);
+      assert.equal(subEntity?.depth, 1);
+      assert.equal(mockDb2.entities.Delegation.get(rootId)?.depth, 0);
+    });
+
+    it("Disabling a redelegation whose chain is still unresolved keeps its root delegator", async () => {
+      // Parent not indexed and no permission context: only the log's rootDelegator is known
+      const mockDb1 = await redeem(MockDb.createMockDb(), subDelegation, 0);
+      assert.equal(mockDb1.entities.Delegation.get(subId)?.rootDelegator, userAddress.toLowerCase());
+
+      const mockDb2 = await DelegationManager.DisabledDelegation.processEvent({
+        event: DelegationManager.DisabledDelegation.createMockEvent({
+          delegationHash: getDelegationHash(subDelegation),
+          delegator: agentAddress,
+          delegate: subAgentAddress,
+          delegation: subDelegation,
+          mockEventData: { chainId: 84532 },
+        }),
+        mockDb: mockDb1,
+      });
+
+      const subEntity = mockDb2.entities.Delegation.get(subId);
+      assert.equal(subEntity?.disabled, true);
+      assert.equal(subEntity?.rootDelegator, userAddress.toLowerCase());
+      assert.equal(subEntity?.depth, undefined);
+    });
+  });
+
+  describe("Caveats", () => {
+    const delegatorAddress = Addresses.defaultAddress;
+    const delegateAddress = "0x1234567890123456789012345678901234567890";
+    const token = "0x036cbd53842c5426634e7929541ec2318f3dcf7e";
+    const target = "0x5555555555555555555555555555555555555555";
+
+    const ERC20_PERIOD_TRANSFER_ENFORCER = "0x474e3Ae7E169e940607cC624Da8A15Eb120139aB";
+    const TIMESTAMP_ENFORCER = "0x1046bb45C8d673d4ea75321280DB34899413c069";
+    const ALLOWED_TARGETS_ENFORCER = "0x7F20f61b1f09b08D970938F6fa563634d65c4EeB";
+    const UNKNOWN_ENFORCER = "0x6666666666666666666666666666666666666666";
+
+    const periodTerms = concat([token, numberToHex(1000n, { size: 32 }), numberToHex(86400n, { size: 32 }), numberToHex(1700000000n, { size: 32 })]);
+    const timestampTerms = concat([numberToHex(0n, { size: 16 }), numberToHex(1800000000n, { size: 16 })]);
+
+    it("Each caveat is stored with its decoded terms, and known ones fill the delegation's limits", async () => {
+      const caveats: Array<[string, string, string]> = [
+        [ERC20_PERIOD_TRANSFER_ENFORCER, periodTerms, "0x"],
+        [TIMESTAMP_ENFORCER, timestampTerms, "0x"],
+        [ALLOWED_TARGETS_ENFORCER, target, "0x"],
+        [UNKNOWN_ENFORCER, "0x1234", "0x"],
+      ];
+
+      const event = DelegationManager.RedeemedDelegation.createMockEvent({
+        rootDelegator: delegatorAddress,
+        redeemer: delegateAddress,
+        delegation: [delegateAddress, delegatorAddress, "0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff", caveats, 7n, "0x"],
+      });
+      const mockDb = await DelegationManager.RedeemedDelegation.processEvent({ event, mockDb: MockDb.createMockDb() });
+
+      const delegationId = `${event.chainId}-${delegatorAddress.toLowerCase()}-${delegateAddress}-7`;
+      const delegationEntity = mockDb.entities.Delegation.get(delegationId);
+      assert.equal(delegationEntity?.spendingToken, token);
+      assert.equal(delegationEntity?.spendingLimit, 1000n);
+      assert.equal(delegationEntity?.spendingPeriod, 86400n);
+      assert.equal(delegationEntity?.expiresAt, 1800000000n);
+
+      const period = mockDb.entities.Caveat.get(`${delegationId}-0`);
+      assert.equal(period?.enforcerName, "ERC20PeriodTransferEnforcer");
+      assert.deepEqual(period?.decodedTerms, { token, periodAmount: "1000", periodDuration: "86400", startDate: "1700000000" });
+
+      const timestamp = mockDb.entities.Caveat.get(`${delegationId}-1`);
+      assert.deepEqual(timestamp?.decodedTerms, { afterThreshold: "0", beforeThreshold: "1800000000" });
+      assert.equal(timestamp?.summary, "Valid before timestamp 1800000000");
+
+      const targets = mockDb.entities.Caveat.get(`${delegationId}-2`);
+      assert.deepEqual(targets?.decodedTerms, { targets: [target] });
+
+      const unknown = mockDb.entities.Caveat.get(`${delegationId}-3`);
+      assert.equal(unknown?.enforcer, UNKNOWN_ENFORCER);
+      assert.equal(unknown?.terms, "0x1234");
+      assert.equal(unknown?.enforcerName, undefined);
+      assert.equal(unknown?.decodedTerms, undefined);
+    });
+
+    it("Malformed terms of a known enforcer are kept raw", async () => {
+      const event = DelegationManager.DisabledDelegation.createMockEvent({
+        delegationHash: "0x3333333333333333333333333333333333333333333333333333333333333333",
+        delegator: delegatorAddress,
+        delegate: delegateAddress,
+        delegation: [delegateAddress, delegatorAddress, "0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff", [[TIMESTAMP_ENFORCER, "0x01", "0x"]], 8n, "0x"],
+      });
+      const mockDb = await DelegationManager.DisabledDelegation.processEvent({ event, mockDb: MockDb.createMockDb() });
+
+      const delegationId = `${event.chainId}-${delegatorAddress.toLowerCase()}-${delegateAddress}-8`;
+      const caveat = mockDb.entities.Caveat.get(`${delegationId}-0`);
+      assert.equal(caveat?.enforcerName, "TimestampEnforcer");
+      assert.equal(caveat?.terms, "0x01");
+      assert.equal(caveat?.decodedTerms, undefined);
+      assert.equal(mockDb.entities.Delegation.get(delegationId)?.expiresAt, undefined);
+    });
+  });
 });
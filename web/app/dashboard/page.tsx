@@ -6,6 +6,7 @@ import { DelegationTree } from "@/components/dashboard/delegation-tree"
 import { NewPermissionModal } from "@/components/dashboard/new-permission-modal"
 import { DCAConfigModal } from "@/components/dashboard/dca-config-modal"
 import { LimitOrderConfigModal } from "@/components/dashboard/limit-order-config-modal"
+import { StopLossConfigModal } from "@/components/dashboard/stop-loss-config-modal"
 import { SavingsConfigModal } from "@/components/dashboard/savings-config-modal"
 import { SubscriptionConfigModal } from "@/components/dashboard/subscription-config-modal"
 import { StatsOverview } from "@/components/dashboard/stats-overview"
@@ -21,6 +22,7 @@ export default function DashboardPage() {
   const [isNewPermissionOpen, setIsNewPermissionOpen] = useState(false)
   const [isDCAConfigOpen, setIsDCAConfigOpen] = useState(false)
   const [isLimitOrderConfigOpen, setIsLimitOrderConfigOpen] = useState(false)
+  const [isStopLossConfigOpen, setIsStopLossConfigOpen] = useState(false)
   const [isSavingsConfigOpen, setIsSavingsConfigOpen] = useState(false)
   const [isSubscriptionConfigOpen, setIsSubscriptionConfigOpen] = useState(false)
 
@@ -108,6 +110,8 @@ export default function DashboardPage() {
               setIsDCAConfigOpen(true)
             } else if (agentId === "limit-order") {
               setIsLimitOrderConfigOpen(true)
+            } else if (agentId === "stop-loss") {
+              setIsStopLossConfigOpen(true)
             } else if (agentId === "savings") {
               setIsSavingsConfigOpen(true)
             } else if (agentId === "subscription") {
@@ -126,6 +130,11 @@ export default function DashboardPage() {
           onClose={() => setIsLimitOrderConfigOpen(false)}
         />
 
+        <StopLossConfigModal
+          isOpen={isStopLossConfigOpen}
+          onClose={() => setIsStopLossConfigOpen(false)}
+        />
+
         <SavingsConfigModal
           isOpen={isSavingsConfigOpen}
           onClose={() => setIsSavingsConfigOpen(false)}
@@ -266,6 +266,7 @@ export default function PermissionsPage() {
           onClose={handleModalClose}
           permission={selectedPermission}
           onCancelled={handlePermissionCancelled}
+          onRenewed={fetchPermissions}
         />
       </div>
     </WalletGate>
@@ -10,13 +10,12 @@ import {
 } from "@metamask/smart-accounts-kit/actions"
 import { sepolia } from "viem/chains"
 import { cn } from "@/lib/utils"
+import { useBackendFetch } from "@/lib/backend"
 
 // ============================================
 // Constants
 // ============================================
 
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001"
-
 // Fixed DCA Agent address
 const DCA_AGENT_ADDRESS = "0x4d3b8dd169fa999a3689ef6eeea640d0468de0fe" as Address
 
@@ -156,6 +155,7 @@ interface DCAConfigModalProps {
 
 export function DCAConfigModal({ isOpen, onClose, onSuccess }: DCAConfigModalProps) {
   const { address } = useAccount()
+  const backendFetch = useBackendFetch()
   const { data: walletClient } = useWalletClient()
   const chainId = useChainId()
   const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
@@ -326,9 +326,8 @@ export function DCAConfigModal({ isOpen, onClose, onSuccess }: DCAConfigModalPro
         maxExecutions: maxExecutions ? parseInt(maxExecutions) : undefined,
       }
 
-      const response = await fetch(`${BACKEND_URL}/api/agents/dca`, {
+      const response = await backendFetch("/api/agents/dca", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
       })
 
@@ -356,7 +355,7 @@ export function DCAConfigModal({ isOpen, onClose, onSuccess }: DCAConfigModalPro
     } finally {
       setIsLoading(false)
     }
-  }, [walletClient, address, tokenIn, tokenOut, amount, intervalSeconds, maxExecutions, agentName, feeTier, onClose, onSuccess])
+  }, [walletClient, address, tokenIn, tokenOut, amount, intervalSeconds, maxExecutions, agentName, feeTier, onClose, onSuccess, backendFetch])
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -7,37 +7,22 @@ import { cn } from "@/lib/utils"
 import Link from "next/link"
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001"
+const ENVIO_GRAPHQL_URL =
+  process.env.NEXT_PUBLIC_ENVIO_GRAPHQL_URL ||
+  "https://indexer.dev.hyperindex.xyz/dca02a0/v1/graphql"
+
+// Agent types
+const AGENT_TYPES: Record<string, { name: string; icon: string }> = {
+  "dca": { name: "DCA Agent", icon: "↻" },
+  "limit-order": { name: "Limit Order Agent", icon: "⇌" },
+  "savings": { name: "Savings Agent", icon: "⬡" },
+  "recurring-payment": { name: "Subscription Agent", icon: "◈" },
+  "stop-loss": { name: "Stop-Loss Agent", icon: "▽" },
+}
 
-// Known agent addresses
-const AGENT_ADDRESSES: Record<string, { name: string; type: string; icon: string; chain: string; chainId: number }> = {
-  "0x4d3b8dd169fa999a3689ef6eeea640d0468de0fe": {
-    name: "DCA Agent",
-    type: "dca",
-    icon: "↻",
-    chain: "Sepolia",
-    chainId: 11155111,
-  },
-  "0x0013bb0d8712dc4cacbc8cd32d4c0c851cdf18da": {
-    name: "Limit Order Agent",
-    type: "limit-order",
-    icon: "⇌",
-    chain: "Sepolia",
-    chainId: 11155111,
-  },
-  "0x4a5fade4f48c372b4c2cfdd1f58fb1ab1408674a": {
-    name: "Savings Agent",
-    type: "savings",
-    icon: "⬡",
-    chain: "Base Sepolia",
-    chainId: 84532,
-  },
-  "0x9d40c09a940a67ad7aff166c99e9422ce89aeb2d": {
-    name: "Subscription Agent",
-    type: "subscription",
-    icon: "◈",
-    chain: "Sepolia",
-    chainId: 11155111,
-  },
+const CHAIN_NAMES: Record<number, string> = {
+  11155111: "Sepolia",
+  84532: "Base Sepolia",
 }
 
 // Token info
@@ -67,43 +52,180 @@ interface Permission {
   dataSource: string
 }
 
-interface AgentGroup {
-  address: string
-  name: string
-  type: string
-  icon: string
-  chain: string
+// Delegation indexed by Envio - parent_id links a redelegation to the delegation it extends
+interface EnvioDelegation {
+  id: string
   chainId: number
-  permissions: Permission[]
-  totalExecutions: number
+  delegator: string
+  delegate: string
+  parent_id: string | null
+  depth: number | null
+  spendingToken: string | null
+  spendingLimit: string | null
+  redemptionCount: number
+  disabled: boolean
+}
+
+interface TreeNode {
+  id: string
+  chainId: number
+  delegate: string
+  spendingToken: string | null
+  spendingLimit: string | null
+  executionCount: number
+  status: string
+  onChain: boolean
+  // Backend agent granted this delegation, if any
+  permission?: Permission
+  children: TreeNode[]
 }
 
 function getTokenInfo(address: string) {
   return TOKENS[address.toLowerCase()] || { symbol: "TOKEN", decimals: 18 }
 }
 
-function getAgentInfo(sessionKeyAddress: string, agentType: string) {
-  const normalizedAddress = sessionKeyAddress.toLowerCase()
-  if (AGENT_ADDRESSES[normalizedAddress]) {
-    return AGENT_ADDRESSES[normalizedAddress]
-  }
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
 
-  const typeMap: Record<string, { name: string; icon: string }> = {
-    "dca": { name: "DCA Agent", icon: "↻" },
-    "limit-order": { name: "Limit Order Agent", icon: "⇌" },
-    "savings": { name: "Savings Agent", icon: "⬡" },
-    "recurring-payment": { name: "Subscription Agent", icon: "◈" },
+function getNodeInfo(node: TreeNode) {
+  if (node.permission) {
+    const agentType = AGENT_TYPES[node.permission.agentType]
+    return {
+      name: node.permission.name,
+      subtitle: agentType?.name || "Unknown Agent",
+      icon: agentType?.icon || "●",
+    }
   }
 
-  return {
-    name: typeMap[agentType]?.name || "Unknown Agent",
-    type: agentType,
-    icon: typeMap[agentType]?.icon || "●",
-    chain: "Unknown",
-    chainId: 0,
+  return { name: shortAddress(node.delegate), subtitle: "Redelegated", icon: "●" }
+}
+
+async function fetchDelegationTree(rootDelegator: string): Promise<EnvioDelegation[]> {
+  const query = `
+    query GetDelegationTree($rootDelegator: String!) {
+      Delegation(
+        where: { rootDelegator: { _eq: $rootDelegator } }
+        order_by: { depth: asc }
+      ) {
+        id
+        chainId
+        delegator
+        delegate
+        parent_id
+        depth
+        spendingToken
+        spendingLimit
+        redemptionCount
+        disabled
+      }
+    }
+  `
+
+  try {
+    const response = await fetch(ENVIO_GRAPHQL_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        query,
+        variables: { rootDelegator: rootDelegator.toLowerCase() },
+      }),
+    })
+
+    const result = await response.json()
+
+    if (result.errors) {
+      console.error("Envio GraphQL errors:", result.errors)
+      return []
+    }
+
+    return result.data?.Delegation || []
+  } catch (error) {
+    console.error("Failed to fetch delegation tree from Envio:", error)
+    return []
   }
 }
 
+/**
+ * Build the delegation trees rooted at the user's wallet
+ * Root delegations are matched to the agents that hold them; agents whose
+ * permission was never redeemed (so not indexed yet) are shown as pending
+ */
+function buildTree(delegations: EnvioDelegation[], permissions: Permission[]): TreeNode[] {
+  const nodes = new Map<string, TreeNode>()
+  const unmatched = [...permissions]
+
+  delegations.forEach((delegation) => {
+    const index = unmatched.findIndex(
+      (permission) =>
+        delegation.depth === 0 &&
+        permission.chainId === delegation.chainId &&
+        permission.sessionKeyAddress.toLowerCase() === delegation.delegate &&
+        permission.spendingToken.toLowerCase() === delegation.spendingToken?.toLowerCase() &&
+        permission.spendingLimit === delegation.spendingLimit
+    )
+    const permission = index !== -1 ? unmatched.splice(index, 1)[0] : undefined
+
+    nodes.set(delegation.id, {
+      id: delegation.id,
+      chainId: delegation.chainId,
+      delegate: delegation.delegate,
+      spendingToken: delegation.spendingToken,
+      spendingLimit: delegation.spendingLimit,
+      executionCount: delegation.redemptionCount,
+      status: delegation.disabled ? "disabled" : permission?.status || "active",
+      onChain: true,
+      permission,
+      children: [],
+    })
+  })
+
+  const roots: TreeNode[] = []
+
+  delegations.forEach((delegation) => {
+    const node = nodes.get(delegation.id)!
+    const parent = delegation.parent_id ? nodes.get(delegation.parent_id) : undefined
+
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  })
+
+  unmatched.forEach((permission) => {
+    roots.push({
+      id: permission.id,
+      chainId: permission.chainId,
+      delegate: permission.sessionKeyAddress.toLowerCase(),
+      spendingToken: permission.spendingToken,
+      spendingLimit: permission.spendingLimit,
+      executionCount: permission.executionCount,
+      status: permission.status,
+      onChain: false,
+      permission,
+      children: [],
+    })
+  })
+
+  return roots
+}
+
+function countNodes(nodes: TreeNode[]): { delegations: number; executions: number } {
+  return nodes.reduce(
+    (total, node) => {
+      const children = countNodes(node.children)
+      return {
+        delegations: total.delegations + 1 + children.delegations,
+        executions: total.executions + node.executionCount + children.executions,
+      }
+    },
+    { delegations: 0, executions: 0 }
+  )
+}
+
 function LoadingState() {
   return (
     <div className="flex items-start gap-8 animate-pulse overflow-x-auto pb-4">
@@ -131,77 +253,26 @@ function EmptyState() {
   )
 }
 
-function PermissionNode({ permission, isFirst, isLast, totalCount }: {
-  permission: Permission
+function DelegationNode({ node, isFirst, isLast, totalCount }: {
+  node: TreeNode
   isFirst: boolean
   isLast: boolean
   totalCount: number
-}) {
-  const tokenInfo = getTokenInfo(permission.spendingToken)
-  const limit = Number(formatUnits(BigInt(permission.spendingLimit), tokenInfo.decimals))
-
-  return (
-    <div className="flex items-center py-2">
-      {/* Horizontal connector line */}
-      <div className="relative w-12 shrink-0">
-        <div className="absolute top-1/2 left-0 w-full h-px bg-white/40" />
-        {/* Vertical line segment */}
-        {totalCount > 1 && (
-          <div
-            className={cn(
-              "absolute left-0 w-px bg-white/40",
-              isFirst ? "top-1/2 h-[calc(50%+8px)]" : isLast ? "top-[-8px] h-[calc(50%+8px)]" : "top-[-8px] h-[calc(100%+16px)]"
-            )}
-          />
-        )}
-      </div>
-
-      {/* Permission card */}
-      <div className="group border border-border/50 bg-card/50 p-4 hover:border-accent/50 transition-colors min-w-[200px]">
-        <div className="flex items-center justify-between gap-3">
-          <h4 className="font-mono text-xs font-medium truncate">{permission.name}</h4>
-          <span
-            className={cn(
-              "font-mono text-[8px] uppercase tracking-widest px-1.5 py-0.5 border flex-shrink-0",
-              permission.status === "active"
-                ? "text-green-400 border-green-400/30 bg-green-400/10"
-                : permission.status === "paused"
-                ? "text-yellow-400 border-yellow-400/30 bg-yellow-400/10"
-                : "text-muted-foreground border-border bg-muted/10"
-            )}
-          >
-            {permission.status}
-          </span>
-        </div>
-        <div className="flex items-center gap-2 mt-2">
-          <span className="font-mono text-[10px] text-muted-foreground">
-            {limit.toLocaleString(undefined, { maximumFractionDigits: 2 })} {tokenInfo.symbol}
-          </span>
-          <span className="text-muted-foreground/40">•</span>
-          <span className="font-mono text-[10px] text-muted-foreground">
-            {permission.executionCount} exec
-          </span>
-        </div>
-      </div>
-    </div>
-  )
-}
-
-function AgentNode({ agent, isFirst, isLast, totalAgents }: {
-  agent: AgentGroup
-  isFirst: boolean
-  isLast: boolean
-  totalAgents: number
 }) {
   const [isExpanded, setIsExpanded] = useState(true)
+  const info = getNodeInfo(node)
+  const tokenInfo = node.spendingToken ? getTokenInfo(node.spendingToken) : null
+  const limit = tokenInfo && node.spendingLimit
+    ? Number(formatUnits(BigInt(node.spendingLimit), tokenInfo.decimals))
+    : null
 
   return (
     <div className="flex items-start py-3">
-      {/* Horizontal connector from wallet */}
+      {/* Horizontal connector from the parent */}
       <div className="relative w-16 shrink-0 h-20 flex items-center">
         <div className="absolute top-1/2 left-0 w-full h-px bg-white/40" />
-        {/* Vertical connector for multiple agents */}
-        {totalAgents > 1 && (
+        {/* Vertical connector for siblings */}
+        {totalCount > 1 && (
           <div
             className={cn(
               "absolute left-0 w-px bg-white/40",
@@ -211,35 +282,71 @@ function AgentNode({ agent, isFirst, isLast, totalAgents }: {
         )}
       </div>
 
-      {/* Agent card and its permissions */}
+      {/* Delegation card and its redelegations */}
       <div className="flex items-start gap-1">
-        {/* Agent card */}
         <div
           onClick={() => setIsExpanded(!isExpanded)}
-          className="group flex items-center gap-4 border border-accent/50 bg-accent/5 p-4 cursor-pointer hover:bg-accent/10 transition-colors min-w-[220px]"
+          className={cn(
+            "group flex items-center gap-4 border p-4 transition-colors min-w-[240px]",
+            node.permission ? "border-accent/50 bg-accent/5 hover:bg-accent/10" : "border-border/50 bg-card/50 hover:border-accent/50",
+            node.children.length > 0 && "cursor-pointer"
+          )}
         >
           <div className="w-12 h-12 border border-accent/50 bg-accent/10 flex items-center justify-center shrink-0">
-            <span className="text-xl">{agent.icon}</span>
+            <span className="text-xl">{info.icon}</span>
           </div>
           <div className="flex-1 min-w-0">
-            <div className="flex items-center gap-2">
-              <h3 className="font-mono text-sm font-medium truncate">{agent.name}</h3>
+            <div className="flex items-center justify-between gap-3">
+              <h3 className="font-mono text-sm font-medium truncate">{info.name}</h3>
+              <span
+                className={cn(
+                  "font-mono text-[8px] uppercase tracking-widest px-1.5 py-0.5 border flex-shrink-0",
+                  node.status === "active"
+                    ? "text-green-400 border-green-400/30 bg-green-400/10"
+                    : node.status === "paused"
+                    ? "text-yellow-400 border-yellow-400/30 bg-yellow-400/10"
+                    : node.status === "disabled"
+                    ? "text-red-400 border-red-400/30 bg-red-400/10"
+                    : "text-muted-foreground border-border bg-muted/10"
+                )}
+              >
+                {node.status}
+              </span>
             </div>
             <div className="flex items-center gap-2 mt-1">
               <span className="font-mono text-[9px] text-muted-foreground border border-border/50 px-1.5 py-0.5">
-                {agent.chain}
+                {CHAIN_NAMES[node.chainId] || "Unknown"}
               </span>
-              <span className="font-mono text-[9px] text-muted-foreground">
-                {agent.permissions.length} perm
+              <span className="font-mono text-[9px] text-muted-foreground">{info.subtitle}</span>
+            </div>
+            <div className="flex items-center gap-2 mt-2">
+              {limit !== null && tokenInfo && (
+                <>
+                  <span className="font-mono text-[10px] text-muted-foreground">
+                    {limit.toLocaleString(undefined, { maximumFractionDigits: 2 })} {tokenInfo.symbol}
+                  </span>
+                  <span className="text-muted-foreground/40">•</span>
+                </>
+              )}
+              <span className="font-mono text-[10px] text-muted-foreground">
+                {node.executionCount} exec
               </span>
+              {!node.onChain && (
+                <>
+                  <span className="text-muted-foreground/40">•</span>
+                  <span className="font-mono text-[10px] text-muted-foreground">not redeemed yet</span>
+                </>
+              )}
             </div>
           </div>
           <div className="flex flex-col items-end gap-2">
-            <span className="font-mono text-[9px] text-muted-foreground">
-              {isExpanded ? "◀" : "▶"}
-            </span>
+            {node.children.length > 0 && (
+              <span className="font-mono text-[9px] text-muted-foreground">
+                {isExpanded ? "◀" : "▶"}
+              </span>
+            )}
             <Link
-              href={`/dashboard/agent/${agent.address}`}
+              href={`/dashboard/agent/${node.delegate}`}
               onClick={(e) => e.stopPropagation()}
               className="font-mono text-[8px] text-accent hover:text-accent/80 transition-colors"
             >
@@ -248,16 +355,16 @@ function AgentNode({ agent, isFirst, isLast, totalAgents }: {
           </div>
         </div>
 
-        {/* Permissions branching from agent */}
-        {isExpanded && agent.permissions.length > 0 && (
+        {/* Redelegations branching from this delegation */}
+        {isExpanded && node.children.length > 0 && (
           <div className="flex flex-col justify-center">
-            {agent.permissions.map((permission, idx) => (
-              <PermissionNode
-                key={permission.id}
-                permission={permission}
+            {node.children.map((child, idx) => (
+              <DelegationNode
+                key={child.id}
+                node={child}
                 isFirst={idx === 0}
-                isLast={idx === agent.permissions.length - 1}
-                totalCount={agent.permissions.length}
+                isLast={idx === node.children.length - 1}
+                totalCount={node.children.length}
               />
             ))}
           </div>
@@ -269,13 +376,13 @@ function AgentNode({ agent, isFirst, isLast, totalAgents }: {
 
 export function DelegationTree() {
   const { address, isConnected } = useAccount()
-  const [agentGroups, setAgentGroups] = useState<AgentGroup[]>([])
+  const [tree, setTree] = useState<TreeNode[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   const fetchDelegations = useCallback(async () => {
     if (!address) {
-      setAgentGroups([])
+      setTree([])
       setIsLoading(false)
       return
     }
@@ -284,7 +391,10 @@ export function DelegationTree() {
       setIsLoading(true)
       setError(null)
 
-      const response = await fetch(`${BACKEND_URL}/api/agents/user/${address}?status=all`)
+      const [response, delegations] = await Promise.all([
+        fetch(`${BACKEND_URL}/api/agents/user/${address}?status=all`),
+        fetchDelegationTree(address),
+      ])
 
       if (!response.ok) {
         throw new Error("Failed to fetch permissions")
@@ -297,35 +407,7 @@ export function DelegationTree() {
       }
 
       const permissions: Permission[] = data.permissions || []
-      const groupMap = new Map<string, AgentGroup>()
-
-      permissions.forEach((permission) => {
-        const agentInfo = getAgentInfo(permission.sessionKeyAddress, permission.agentType)
-        const groupKey = `${permission.agentType}-${permission.chainId}`
-
-        if (!groupMap.has(groupKey)) {
-          const knownAgent = Object.entries(AGENT_ADDRESSES).find(
-            ([, info]) => info.type === permission.agentType && info.chainId === permission.chainId
-          )
-
-          groupMap.set(groupKey, {
-            address: knownAgent?.[0] || permission.sessionKeyAddress,
-            name: agentInfo.name,
-            type: permission.agentType,
-            icon: agentInfo.icon,
-            chain: agentInfo.chain,
-            chainId: permission.chainId,
-            permissions: [],
-            totalExecutions: 0,
-          })
-        }
-
-        const group = groupMap.get(groupKey)!
-        group.permissions.push(permission)
-        group.totalExecutions += permission.executionCount
-      })
-
-      setAgentGroups(Array.from(groupMap.values()))
+      setTree(buildTree(delegations, permissions))
     } catch (err) {
       console.error("Error fetching delegations:", err)
       setError(err instanceof Error ? err.message : "Failed to fetch delegations")
@@ -364,12 +446,11 @@ export function DelegationTree() {
     )
   }
 
-  if (agentGroups.length === 0) {
+  if (tree.length === 0) {
     return <EmptyState />
   }
 
-  const totalPermissions = agentGroups.reduce((sum, g) => sum + g.permissions.length, 0)
-  const totalExecutions = agentGroups.reduce((sum, g) => sum + g.totalExecutions, 0)
+  const { delegations: totalDelegations, executions: totalExecutions } = countNodes(tree)
 
   return (
     <div className="overflow-x-auto pb-6">
@@ -390,7 +471,7 @@ export function DelegationTree() {
             </div>
             <div className="mt-4 pt-4 border-t border-accent/30 flex items-center justify-between">
               <span className="font-mono text-[10px] text-muted-foreground">
-                {totalPermissions} delegation{totalPermissions !== 1 ? "s" : ""}
+                {totalDelegations} delegation{totalDelegations !== 1 ? "s" : ""}
               </span>
               <span className="font-mono text-[10px] text-muted-foreground">
                 {totalExecutions} exec
@@ -405,15 +486,15 @@ export function DelegationTree() {
           </div>
         </div>
 
-        {/* Agent branches */}
+        {/* Delegation branches */}
         <div className="flex flex-col justify-center">
-          {agentGroups.map((agent, idx) => (
-            <AgentNode
-              key={`${agent.type}-${agent.chainId}`}
-              agent={agent}
+          {tree.map((node, idx) => (
+            <DelegationNode
+              key={node.id}
+              node={node}
               isFirst={idx === 0}
-              isLast={idx === agentGroups.length - 1}
-              totalAgents={agentGroups.length}
+              isLast={idx === tree.length - 1}
+              totalCount={tree.length}
             />
           ))}
         </div>
@@ -10,13 +10,12 @@ import {
 } from "@metamask/smart-accounts-kit/actions"
 import { sepolia } from "viem/chains"
 import { cn } from "@/lib/utils"
+import { useBackendFetch } from "@/lib/backend"
 
 // ============================================
 // Constants
 // ============================================
 
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001"
-
 // Limit Order Agent address
 const LIMIT_ORDER_AGENT_ADDRESS = "0x0013bb0d8712dc4cacbc8cd32d4c0c851cdf18da" as Address
 
@@ -163,6 +162,7 @@ interface LimitOrderConfigModalProps {
 
 export function LimitOrderConfigModal({ isOpen, onClose, onSuccess }: LimitOrderConfigModalProps) {
   const { address } = useAccount()
+  const backendFetch = useBackendFetch()
   const { data: walletClient } = useWalletClient()
   const chainId = useChainId()
   const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
@@ -375,9 +375,8 @@ export function LimitOrderConfigModal({ isOpen, onClose, onSuccess }: LimitOrder
         },
       }
 
-      const response = await fetch(`${BACKEND_URL}/api/agents/limit-order`, {
+      const response = await backendFetch("/api/agents/limit-order", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
       })
 
@@ -408,7 +407,7 @@ export function LimitOrderConfigModal({ isOpen, onClose, onSuccess }: LimitOrder
     } finally {
       setIsLoading(false)
     }
-  }, [walletClient, address, tokenIn, tokenOut, amount, targetPrice, direction, expiryDays, agentName, feeTier, onClose, onSuccess])
+  }, [walletClient, address, tokenIn, tokenOut, amount, targetPrice, direction, expiryDays, agentName, feeTier, onClose, onSuccess, backendFetch])
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -43,6 +43,14 @@ const agents = [
     details: "Powered by Uniswap • Set buy/sell price targets",
     icon: "◇",
   },
+  {
+    id: "stop-loss",
+    name: "Stop-Loss Agent",
+    status: "live" as const,
+    description: "Sell automatically when the price drops to your stop",
+    details: "Powered by Uniswap • Fixed or trailing stops",
+    icon: "▽",
+  },
 ]
 
 function AgentCard({
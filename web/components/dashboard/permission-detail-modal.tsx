@@ -2,18 +2,22 @@
 
 import { useState, useEffect, useCallback } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
-import { formatUnits } from "viem"
+import { formatUnits, parseUnits, type Address, type Hex } from "viem"
+import { useChainId, useSwitchChain, useWalletClient } from "wagmi"
+import { requestExecutionPermissions } from "@metamask/smart-accounts-kit/actions"
 import { cn } from "@/lib/utils"
+import { useBackendFetch } from "@/lib/backend"
+import { describeExecutionError, type ExecutionError } from "@/lib/execution-errors"
 import {
+  fetchCaveatsForPermission,
   fetchRedemptionsForPermission,
   transformToActivity,
   getChainInfo,
   formatRelativeTime,
   type Activity,
+  type EnvioCaveat,
 } from "./recent-activity"
 
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001"
-
 // Token info for display
 const TOKENS: Record<string, { symbol: string; decimals: number; logo: string }> = {
   // Sepolia tokens
@@ -28,14 +32,34 @@ const TOKENS: Record<string, { symbol: string; decimals: number; logo: string }>
   "0x4200000000000000000000000000000000000006": { symbol: "WETH", decimals: 18, logo: "⟠" },
 }
 
+// Permission returned by requestExecutionPermissions
+type GrantedPermission = {
+  context: Hex
+  chainId: string
+  permission: {
+    data: {
+      tokenAddress: string
+      periodAmount: string
+      periodDuration: number
+      startTime: number
+    }
+  }
+  signerMeta: { delegationManager: Address }
+}
+
 // Agent type display names
 const AGENT_TYPE_LABELS: Record<string, string> = {
   "dca": "DCA Agent",
   "limit-order": "Limit Order Agent",
   "savings": "Savings Agent",
   "recurring-payment": "Subscription Agent",
+  "stop-loss": "Stop-Loss Agent",
 }
 
+// Agents that swap or supply the spent tokens - token permissions only allow transfers,
+// so these hold each amount on their session key until the swap or supply completes
+const CUSTODY_AGENT_TYPES = ["dca", "limit-order", "stop-loss", "savings"]
+
 interface PermissionConfig {
   dca?: {
     tokenIn: string
@@ -43,6 +67,8 @@ interface PermissionConfig {
     amountPerExecution: string
     intervalSeconds: number
     feeTier?: number
+    totalAmountIn?: string
+    totalAmountOut?: string
   }
   limitOrder?: {
     tokenIn: string
@@ -51,6 +77,18 @@ interface PermissionConfig {
     targetPrice: string
     direction: string
     feeTier?: number
+    expiryTimestamp: number
+  }
+  stopLoss?: {
+    tokenIn: string
+    tokenOut: string
+    triggerPrice: string
+    amountIn?: string
+    sellPercentage?: number
+    trailingDistance?: number
+    highestPrice?: string
+    feeTier?: number
+    expiryTimestamp: number
   }
   savings?: {
     token: string
@@ -65,14 +103,27 @@ interface PermissionConfig {
   }
 }
 
+export interface PeriodSpending {
+  start: number
+  end: number
+  spent: string
+  redemptionCount: number
+}
+
 export interface Permission {
   id: string
   name: string
   agentType: string
   status: "active" | "paused" | "expired" | "cancelled" | "completed"
+  statusReason?: string
+  lastError?: ExecutionError
   spendingToken: string
   monthlyLimit: string
   spent: string
+  spentThisPeriod?: string
+  periodStart?: number
+  periodEnd?: number
+  periodSpending?: PeriodSpending[]
   lastExecution: string | null
   lastTxHash: string | null
   executionCount: number
@@ -83,6 +134,8 @@ export interface Permission {
   spendingLimit: string
   spendingPeriod: number
   startTime: number
+  permissionExpiry?: number
+  expiresSoon?: boolean
   config: PermissionConfig
   createdAt: string
 }
@@ -92,6 +145,17 @@ function getTokenInfo(address: string) {
   return TOKENS[normalized] || { symbol: "TOKEN", decimals: 18, logo: "●" }
 }
 
+// Orders keep their own expiry, other agents get as long as the permission being replaced
+function renewalExpiry(permission: Permission): number {
+  const orderExpiry = permission.config.limitOrder?.expiryTimestamp ?? permission.config.stopLoss?.expiryTimestamp
+  if (orderExpiry) return orderExpiry
+
+  if (!permission.permissionExpiry) {
+    throw new Error("The current permission has no expiry to renew")
+  }
+  return Math.floor(Date.now() / 1000) + (permission.permissionExpiry - permission.startTime)
+}
+
 function formatInterval(seconds: number): string {
   if (seconds < 60) return `${seconds} seconds`
   if (seconds < 3600) return `${Math.floor(seconds / 60)} minutes`
@@ -152,6 +216,7 @@ interface PermissionDetailModalProps {
   onClose: () => void
   permission: Permission | null
   onCancelled?: () => void
+  onRenewed?: () => void
 }
 
 export function PermissionDetailModal({
@@ -159,12 +224,21 @@ export function PermissionDetailModal({
   onClose,
   permission,
   onCancelled,
+  onRenewed,
 }: PermissionDetailModalProps) {
   const [transactions, setTransactions] = useState<Activity[]>([])
+  const [caveats, setCaveats] = useState<EnvioCaveat[]>([])
   const [isLoadingTx, setIsLoadingTx] = useState(false)
   const [isCancelling, setIsCancelling] = useState(false)
   const [isExecuting, setIsExecuting] = useState(false)
   const [executeResult, setExecuteResult] = useState<{ success: boolean; message: string; txHash?: string } | null>(null)
+  const [isRenewOpen, setIsRenewOpen] = useState(false)
+  const [isRenewing, setIsRenewing] = useState(false)
+  const [renewLimit, setRenewLimit] = useState("")
+  const backendFetch = useBackendFetch()
+  const { data: walletClient } = useWalletClient()
+  const walletChainId = useChainId()
+  const { switchChainAsync } = useSwitchChain()
 
   const fetchTransactions = useCallback(async () => {
     if (!permission) return
@@ -188,18 +262,31 @@ export function PermissionDetailModal({
     }
   }, [permission])
 
+  const fetchCaveats = useCallback(async () => {
+    if (!permission) return
+
+    const result = await fetchCaveatsForPermission({
+      delegate: permission.sessionKeyAddress,
+      spendingToken: permission.spendingToken,
+      spendingPeriod: permission.spendingPeriod,
+      spendingStartDate: permission.startTime,
+    })
+    setCaveats(result)
+  }, [permission])
+
   useEffect(() => {
     if (isOpen && permission) {
       fetchTransactions()
+      fetchCaveats()
     }
-  }, [isOpen, permission, fetchTransactions])
+  }, [isOpen, permission, fetchTransactions, fetchCaveats])
 
   const handleCancel = async () => {
     if (!permission) return
 
     try {
       setIsCancelling(true)
-      const response = await fetch(`${BACKEND_URL}/api/agents/${permission.id}`, {
+      const response = await backendFetch(`/api/agents/${permission.id}`, {
         method: "DELETE",
       })
 
@@ -223,7 +310,7 @@ export function PermissionDetailModal({
       setIsExecuting(true)
       setExecuteResult(null)
 
-      const response = await fetch(`${BACKEND_URL}/api/agents/${permission.id}/execute`, {
+      const response = await backendFetch(`/api/agents/${permission.id}/execute`, {
         method: "POST",
       })
 
@@ -239,7 +326,11 @@ export function PermissionDetailModal({
 
       setExecuteResult({
         success: data.result?.success ?? true,
-        message: data.result?.success ? "Execution successful!" : (data.result?.error || "Execution completed"),
+        message: data.result?.success
+          ? "Execution successful!"
+          : data.result?.errorCode
+          ? describeExecutionError({ code: data.result.errorCode, message: data.result.error, timestamp: new Date().toISOString() }, permission)
+          : (data.result?.error || "Execution completed"),
         txHash: data.result?.txHash,
       })
 
@@ -260,6 +351,89 @@ export function PermissionDetailModal({
     }
   }
 
+  const openRenew = () => {
+    if (!permission) return
+    const { decimals } = getTokenInfo(permission.spendingToken)
+    setRenewLimit(formatUnits(BigInt(permission.spendingLimit), decimals))
+    setExecuteResult(null)
+    setIsRenewOpen(true)
+  }
+
+  // Grant a new permission for the same session key and token, then move the agent to it
+  const handleRenew = async () => {
+    if (!permission || !walletClient) return
+
+    try {
+      setIsRenewing(true)
+      setExecuteResult(null)
+
+      if (walletChainId !== permission.chainId) {
+        await switchChainAsync({ chainId: permission.chainId })
+      }
+
+      const { decimals } = getTokenInfo(permission.spendingToken)
+      const expiry = renewalExpiry(permission)
+
+      const granted = (await requestExecutionPermissions(
+        walletClient as Parameters<typeof requestExecutionPermissions>[0],
+        [
+          {
+            chainId: permission.chainId,
+            expiry,
+            signer: {
+              type: "account",
+              data: { address: permission.sessionKeyAddress as Address },
+            },
+            permission: {
+              type: "erc20-token-periodic",
+              data: {
+                tokenAddress: permission.spendingToken as Address,
+                periodAmount: parseUnits(renewLimit, decimals),
+                periodDuration: permission.spendingPeriod,
+              },
+            },
+            isAdjustmentAllowed: true,
+          },
+        ]
+      )) as GrantedPermission[]
+
+      const grant = granted[0]
+      const grantData = grant.permission.data
+
+      const response = await backendFetch(`/api/agents/${permission.id}/renew`, {
+        method: "POST",
+        body: JSON.stringify({
+          permissionContext: grant.context,
+          delegationManager: grant.signerMeta.delegationManager,
+          sessionKeyAddress: permission.sessionKeyAddress,
+          chainId: parseInt(grant.chainId, 16),
+          spendingToken: grantData.tokenAddress,
+          spendingLimit: BigInt(grantData.periodAmount).toString(),
+          spendingPeriod: grantData.periodDuration,
+          startTime: grantData.startTime,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to renew permission")
+      }
+
+      setExecuteResult({ success: true, message: "Permission renewed" })
+      setIsRenewOpen(false)
+      onRenewed?.()
+    } catch (error) {
+      console.error("Failed to renew permission:", error)
+      setExecuteResult({
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to renew permission",
+      })
+    } finally {
+      setIsRenewing(false)
+    }
+  }
+
   if (!permission) return null
 
   const tokenInfo = getTokenInfo(permission.spendingToken)
@@ -269,8 +443,21 @@ export function PermissionDetailModal({
   const agentLabel = AGENT_TYPE_LABELS[permission.agentType] || permission.agentType
   const chainInfo = getChainInfo(permission.chainId)
 
-  // Check if this is a one-time order (limit order)
-  const isOneTimeOrder = permission.agentType === "limit-order"
+  // Check if this is a one-time order (limit order or stop-loss)
+  const isOneTimeOrder = permission.agentType === "limit-order" || permission.agentType === "stop-loss"
+
+  const holdsFunds = CUSTODY_AGENT_TYPES.includes(permission.agentType)
+
+  // Filled orders and cancelled agents cannot move to a new permission
+  const canRenew = permission.status !== "cancelled" && !(isOneTimeOrder && permission.status === "completed")
+
+  // Average DCA cost basis (tokenIn paid per tokenOut received)
+  let averageCost: number | null = null
+  if (permission.config.dca && BigInt(permission.config.dca.totalAmountOut || "0") > BigInt(0)) {
+    const totalIn = Number(formatUnits(BigInt(permission.config.dca.totalAmountIn || "0"), getTokenInfo(permission.config.dca.tokenIn).decimals))
+    const totalOut = Number(formatUnits(BigInt(permission.config.dca.totalAmountOut || "0"), getTokenInfo(permission.config.dca.tokenOut).decimals))
+    averageCost = totalIn / totalOut
+  }
 
   // Get interval from config (only for recurring permissions)
   let interval = 0
@@ -310,6 +497,35 @@ export function PermissionDetailModal({
         </DialogHeader>
 
         <div className="p-6 space-y-6 max-h-[60vh] overflow-y-auto">
+          {/* Why the agent stopped, its last execution failed, it needs a new grant soon or it holds funds while executing */}
+          {(permission.statusReason || permission.lastError || permission.expiresSoon || holdsFunds) && (
+            <div className="border border-yellow-400/30 bg-yellow-400/10 p-3 space-y-1">
+              {permission.expiresSoon && permission.permissionExpiry && (
+                <p className="font-mono text-xs text-yellow-400">
+                  Permission expires {new Date(permission.permissionExpiry * 1000).toLocaleString()}. Grant a new one to keep this agent running
+                </p>
+              )}
+              {permission.statusReason && (
+                <p className="font-mono text-xs text-yellow-400">
+                  {permission.status === "paused" ? "Paused" : "Stopped"}: {permission.statusReason}
+                </p>
+              )}
+              {holdsFunds && (
+                <p className="font-mono text-xs text-yellow-400">
+                  Token permissions only allow transfers, so the agent holds each amount until its swap or supply completes. Amounts left by a failed step are retried or refunded to you
+                </p>
+              )}
+              {permission.lastError && (
+                <p className="font-mono text-xs text-yellow-400">
+                  {describeExecutionError(permission.lastError, permission)}
+                  <span className="text-muted-foreground">
+                    {" "}· {formatRelativeTime(new Date(permission.lastError.timestamp))}
+                  </span>
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Progress Section - different for limit orders vs recurring */}
           {isOneTimeOrder ? (
             <div>
@@ -342,6 +558,38 @@ export function PermissionDetailModal({
                   </div>
                 </div>
               )}
+              {permission.config.stopLoss && (
+                <div className="border border-border/30 p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono text-[10px] text-muted-foreground">Amount</span>
+                    <span className="font-mono text-sm">
+                      {permission.config.stopLoss.amountIn
+                        ? `${Number(formatUnits(BigInt(permission.config.stopLoss.amountIn), tokenInfo.decimals)).toLocaleString(undefined, { maximumFractionDigits: 18 })} ${tokenInfo.symbol}`
+                        : `${permission.config.stopLoss.sellPercentage}% of balance`}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono text-[10px] text-muted-foreground">Stop Price</span>
+                    <span className="font-mono text-sm">{permission.config.stopLoss.triggerPrice}</span>
+                  </div>
+                  {permission.config.stopLoss.trailingDistance ? (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <span className="font-mono text-[10px] text-muted-foreground">Trailing Distance</span>
+                        <span className="font-mono text-sm">{permission.config.stopLoss.trailingDistance}%</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="font-mono text-[10px] text-muted-foreground">Peak Price</span>
+                        <span className="font-mono text-sm">{permission.config.stopLoss.highestPrice || "—"}</span>
+                      </div>
+                    </>
+                  ) : null}
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono text-[10px] text-muted-foreground">Expires</span>
+                    <span className="font-mono text-sm">{new Date(permission.config.stopLoss.expiryTimestamp * 1000).toLocaleDateString()}</span>
+                  </div>
+                </div>
+              )}
             </div>
           ) : (
             <div>
@@ -422,8 +670,54 @@ export function PermissionDetailModal({
                 {permission.dataSource}
               </span>
             </div>
+            {permission.spentThisPeriod !== undefined && permission.periodEnd && (
+              <div className="border border-border/30 p-3 col-span-2">
+                <span className="font-mono text-[10px] uppercase tracking-widest text-muted-foreground block mb-1">
+                  Spent This Period
+                </span>
+                <span className="font-mono text-sm">
+                  {Number(formatUnits(BigInt(permission.spentThisPeriod), tokenInfo.decimals)).toLocaleString(undefined, { maximumFractionDigits: 18 })}
+                  {" / "}
+                  {Number(formatUnits(BigInt(permission.spendingLimit), tokenInfo.decimals)).toLocaleString(undefined, { maximumFractionDigits: 18 })} {tokenInfo.symbol}
+                </span>
+                <span className="font-mono text-[10px] text-muted-foreground block mt-1">
+                  Resets {new Date(permission.periodEnd * 1000).toLocaleString()}
+                </span>
+              </div>
+            )}
+            {permission.permissionExpiry && (
+              <div className="border border-border/30 p-3 col-span-2">
+                <span className="font-mono text-[10px] uppercase tracking-widest text-muted-foreground block mb-1">
+                  Permission Expires
+                </span>
+                <span className={cn("font-mono text-sm", permission.expiresSoon && "text-yellow-400")}>
+                  {new Date(permission.permissionExpiry * 1000).toLocaleDateString()}
+                </span>
+              </div>
+            )}
           </div>
 
+          {/* On-chain caveats - exactly what the signed permission allows */}
+          {caveats.length > 0 && (
+            <div className="border border-border/30 p-3">
+              <span className="font-mono text-[10px] uppercase tracking-widest text-muted-foreground block mb-2">
+                Permission Rules
+              </span>
+              <div className="space-y-2">
+                {caveats.map((caveat) => (
+                  <div key={caveat.index} className="flex items-start justify-between gap-3">
+                    <span className="font-mono text-xs break-all">
+                      {caveat.summary || `Custom rule enforced by ${caveat.enforcer}`}
+                    </span>
+                    <span className="font-mono text-[9px] text-muted-foreground shrink-0">
+                      {caveat.enforcerName || "Unknown enforcer"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Agent Address */}
           <div className="border border-border/30 p-3">
             <span className="font-mono text-[10px] uppercase tracking-widest text-muted-foreground block mb-1">
@@ -462,6 +756,12 @@ export function PermissionDetailModal({
                   <span className="text-muted-foreground">Fee Tier:</span>{" "}
                   {(permission.config.dca.feeTier || 3000) / 10000}%
                 </div>
+                {averageCost !== null && (
+                  <div className="col-span-2">
+                    <span className="text-muted-foreground">Avg. Cost:</span>{" "}
+                    {averageCost.toLocaleString(undefined, { maximumFractionDigits: 8 })} {getTokenInfo(permission.config.dca.tokenIn).symbol} per {getTokenInfo(permission.config.dca.tokenOut).symbol}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -548,6 +848,45 @@ export function PermissionDetailModal({
           </div>
         )}
 
+        {/* Renew Permission */}
+        {isRenewOpen && (
+          <div className="mx-6 mb-2 p-3 border border-border/30 space-y-2">
+            <span className="font-mono text-[10px] uppercase tracking-widest text-muted-foreground block">
+              New Per-Period Limit
+            </span>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={renewLimit}
+                onChange={(e) => setRenewLimit(e.target.value)}
+                className="flex-1 bg-background/50 border border-border/50 px-3 py-2 font-mono text-sm focus:outline-none focus:border-accent/50"
+              />
+              <span className="font-mono text-xs text-muted-foreground">{tokenInfo.symbol}</span>
+            </div>
+            <p className="font-mono text-[10px] text-muted-foreground">
+              Grants a new {formatInterval(permission.spendingPeriod)} allowance to the same agent. History and totals are kept.
+            </p>
+            <div className="flex items-center justify-end gap-2">
+              <button
+                onClick={() => setIsRenewOpen(false)}
+                disabled={isRenewing}
+                className="font-mono text-[10px] uppercase tracking-widest text-muted-foreground hover:text-foreground transition-colors px-3 py-1.5 border border-border/50 disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleRenew}
+                disabled={isRenewing || !walletClient || !(Number(renewLimit) > 0)}
+                className="font-mono text-[10px] uppercase tracking-widest text-accent hover:text-accent/80 transition-colors px-3 py-1.5 border border-accent/30 hover:border-accent/50 disabled:opacity-50"
+              >
+                {isRenewing ? "Renewing..." : "Confirm Renewal"}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Footer Actions */}
         <div className="p-6 pt-4 border-t border-border/30 flex items-center justify-between">
           <div className="flex items-center gap-2">
@@ -556,6 +895,15 @@ export function PermissionDetailModal({
             </span>
           </div>
           <div className="flex items-center gap-2">
+            {canRenew && !isRenewOpen && (
+              <button
+                onClick={openRenew}
+                disabled={isExecuting || isCancelling}
+                className="font-mono text-[10px] uppercase tracking-widest text-accent hover:text-accent/80 transition-colors px-3 py-1.5 border border-accent/30 hover:border-accent/50 disabled:opacity-50"
+              >
+                Renew
+              </button>
+            )}
             {permission.status === "active" && (
               <>
                 <button
@@ -29,6 +29,7 @@ export const AGENT_TYPE_LABELS: Record<string, string> = {
   "limit-order": "Limit Order Agent",
   "savings": "Savings Agent",
   "recurring-payment": "Subscription Agent",
+  "stop-loss": "Stop-Loss Agent",
 }
 
 // Helper to get token info
@@ -69,6 +70,12 @@ export function getPermissionDescription(permission: Permission): string {
     return `${permission.config.limitOrder.direction.toUpperCase()} ${inToken.symbol}/${outToken.symbol}`
   }
 
+  if (permission.agentType === "stop-loss" && permission.config.stopLoss) {
+    const inToken = getTokenInfo(permission.config.stopLoss.tokenIn)
+    const outToken = getTokenInfo(permission.config.stopLoss.tokenOut)
+    return `STOP ${inToken.symbol}/${outToken.symbol}`
+  }
+
   if (permission.agentType === "savings" && permission.config.savings) {
     return `Auto-save ${tokenInfo.symbol}`
   }
@@ -93,17 +100,18 @@ export function PermissionRow({
   const [mounted, setMounted] = useState(false)
   const tokenInfo = getTokenInfo(permission.spendingToken)
 
-  // Check if this is a one-time order (limit order)
-  const isOneTimeOrder = permission.agentType === "limit-order"
+  // Check if this is a one-time order (limit order or stop-loss)
+  const isOneTimeOrder = permission.agentType === "limit-order" || permission.agentType === "stop-loss"
 
   // Calculate progress (only for recurring permissions)
   const spent = Number(formatUnits(BigInt(permission.spent), tokenInfo.decimals))
   const limit = Number(formatUnits(BigInt(permission.monthlyLimit), tokenInfo.decimals))
   const progress = limit > 0 ? (spent / limit) * 100 : 0
 
-  // For limit orders, get the order amount
-  const limitOrderAmount = permission.config.limitOrder
-    ? Number(formatUnits(BigInt(permission.config.limitOrder.amountIn), tokenInfo.decimals))
+  // For limit orders and fixed-amount stop-losses, get the order amount
+  const orderAmountIn = permission.config.limitOrder?.amountIn || permission.config.stopLoss?.amountIn
+  const limitOrderAmount = orderAmountIn
+    ? Number(formatUnits(BigInt(orderAmountIn), tokenInfo.decimals))
     : 0
 
   useEffect(() => {
@@ -133,6 +141,11 @@ export function PermissionRow({
           </div>
         </div>
         <div className="flex items-center gap-3">
+          {permission.expiresSoon && (
+            <span className="font-mono text-[10px] uppercase tracking-widest px-2 py-1 border text-yellow-400 border-yellow-400/30 bg-yellow-400/10">
+              expires soon
+            </span>
+          )}
           <span
             className={cn(
               "font-mono text-[10px] uppercase tracking-widest px-2 py-1 border",
@@ -158,7 +171,9 @@ export function PermissionRow({
               Order Amount
             </span>
             <span className="font-mono text-sm">
-              {limitOrderAmount.toLocaleString(undefined, { maximumFractionDigits: 18 })} {tokenInfo.symbol}
+              {permission.config.stopLoss?.sellPercentage
+                ? `${permission.config.stopLoss.sellPercentage}% of balance`
+                : `${limitOrderAmount.toLocaleString(undefined, { maximumFractionDigits: 18 })} ${tokenInfo.symbol}`}
             </span>
           </div>
           {permission.config.limitOrder && (
@@ -171,6 +186,17 @@ export function PermissionRow({
               </span>
             </div>
           )}
+          {permission.config.stopLoss && (
+            <div className="flex items-center justify-between mt-1">
+              <span className="font-mono text-[10px] text-muted-foreground">
+                Stop Price
+              </span>
+              <span className="font-mono text-xs text-muted-foreground">
+                {permission.config.stopLoss.triggerPrice}
+                {permission.config.stopLoss.trailingDistance ? ` (trailing ${permission.config.stopLoss.trailingDistance}%)` : ""}
+              </span>
+            </div>
+          )}
         </div>
       ) : (
         <div className="mt-4">
@@ -463,6 +489,7 @@ export function PermissionsList() {
         onClose={handleModalClose}
         permission={selectedPermission}
         onCancelled={handlePermissionCancelled}
+        onRenewed={fetchPermissions}
       />
     </div>
   )
@@ -224,6 +224,81 @@ export async function fetchRedemptionsByRedeemer(redeemerAddress: string, limit:
   }
 }
 
+// Caveat of an on-chain delegation, decoded by the indexer's enforcer registry
+export interface EnvioCaveat {
+  index: number
+  enforcer: string
+  enforcerName: string | null
+  summary: string | null
+}
+
+// Fetch the caveats of a specific permission's delegation (same composite key as its redemptions)
+export async function fetchCaveatsForPermission(params: {
+  delegate: string
+  spendingToken: string
+  spendingPeriod: number
+  spendingStartDate: number
+}): Promise<EnvioCaveat[]> {
+  const query = `
+    query GetCaveatsForPermission(
+      $delegate: String!,
+      $spendingToken: String!,
+      $spendingPeriod: numeric!,
+      $spendingStartDate: numeric!
+    ) {
+      Delegation(
+        where: {
+          _and: [
+            { delegate: { _eq: $delegate } },
+            { spendingToken: { _eq: $spendingToken } },
+            { spendingPeriod: { _eq: $spendingPeriod } },
+            { spendingStartDate: { _eq: $spendingStartDate } }
+          ]
+        }
+        order_by: { lastSeenAt: desc }
+        limit: 1
+      ) {
+        caveats(order_by: { index: asc }) {
+          index
+          enforcer
+          enforcerName
+          summary
+        }
+      }
+    }
+  `
+
+  try {
+    const response = await fetch(ENVIO_GRAPHQL_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        query,
+        variables: {
+          delegate: params.delegate.toLowerCase(),
+          spendingToken: params.spendingToken.toLowerCase(),
+          spendingPeriod: params.spendingPeriod.toString(),
+          spendingStartDate: params.spendingStartDate.toString(),
+        },
+      }),
+    })
+
+    const result = await response.json()
+
+    if (result.errors) {
+      console.error("Envio GraphQL errors:", result.errors)
+      return []
+    }
+
+    return result.data?.Delegation?.[0]?.caveats || []
+  } catch (error) {
+    console.error("Failed to fetch caveats for permission:", error)
+    return []
+  }
+}
+
 // Fetch redemptions for a specific permission (by delegate + spendingToken + spendingPeriod + startTime)
 export async function fetchRedemptionsForPermission(params: {
   delegate: string
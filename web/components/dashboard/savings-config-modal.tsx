@@ -10,13 +10,12 @@ import {
 } from "@metamask/smart-accounts-kit/actions"
 import { baseSepolia } from "viem/chains"
 import { cn } from "@/lib/utils"
+import { useBackendFetch } from "@/lib/backend"
 
 // ============================================
 // Constants
 // ============================================
 
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001"
-
 // Savings Agent address (on Base Sepolia)
 const SAVINGS_AGENT_ADDRESS = "0x4a5fade4f48c372b4c2cfdd1f58fb1ab1408674a" as Address
 
@@ -71,6 +70,7 @@ interface SavingsConfigModalProps {
 
 export function SavingsConfigModal({ isOpen, onClose, onSuccess }: SavingsConfigModalProps) {
   const { address } = useAccount()
+  const backendFetch = useBackendFetch()
   const { data: walletClient } = useWalletClient()
   const chainId = useChainId()
   const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
@@ -201,9 +201,8 @@ export function SavingsConfigModal({ isOpen, onClose, onSuccess }: SavingsConfig
         maxExecutions: maxExecutions ? parseInt(maxExecutions) : undefined,
       }
 
-      const response = await fetch(`${BACKEND_URL}/api/agents/savings`, {
+      const response = await backendFetch("/api/agents/savings", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
       })
 
@@ -234,7 +233,7 @@ export function SavingsConfigModal({ isOpen, onClose, onSuccess }: SavingsConfig
     } finally {
       setIsLoading(false)
     }
-  }, [walletClient, address, token, amount, intervalSeconds, maxExecutions, agentName, tokenData, onClose, onSuccess])
+  }, [walletClient, address, token, amount, intervalSeconds, maxExecutions, agentName, tokenData, onClose, onSuccess, backendFetch])
 
   const yearlyEstimate = estimatedYearlyEarnings()
 
@@ -10,6 +10,7 @@ import {
 } from "@metamask/smart-accounts-kit/actions"
 import { sepolia } from "viem/chains"
 import { cn } from "@/lib/utils"
+import { useBackendFetch } from "@/lib/backend"
 
 // ============================================
 // Constants
@@ -90,6 +91,7 @@ interface SubscriptionConfigModalProps {
 
 export function SubscriptionConfigModal({ isOpen, onClose, onSuccess }: SubscriptionConfigModalProps) {
   const { address } = useAccount()
+  const backendFetch = useBackendFetch()
   const { data: walletClient } = useWalletClient()
   const chainId = useChainId()
   const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
@@ -258,9 +260,8 @@ export function SubscriptionConfigModal({ isOpen, onClose, onSuccess }: Subscrip
         },
       }
 
-      const response = await fetch(`${BACKEND_URL}/api/agents/recurring-payment`, {
+      const response = await backendFetch("/api/agents/recurring-payment", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
       })
 
@@ -292,7 +293,7 @@ export function SubscriptionConfigModal({ isOpen, onClose, onSuccess }: Subscrip
     } finally {
       setIsLoading(false)
     }
-  }, [walletClient, address, effectivePrice, effectiveRecipient, effectiveName, intervalSeconds, isCustom, onClose, onSuccess])
+  }, [walletClient, address, effectivePrice, effectiveRecipient, effectiveName, intervalSeconds, isCustom, onClose, onSuccess, backendFetch])
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -0,0 +1,125 @@
+"use client"
+
+import { useCallback } from "react"
+import { useAccount, useSignMessage } from "wagmi"
+import { createSiweMessage } from "viem/siwe"
+import type { Address } from "viem"
+
+// ============================================
+// Authenticated backend API calls
+//
+// Agent management routes require a Sign-In-With-Ethereum session. The first
+// call signs a SIWE message with the connected wallet, later calls reuse the
+// session token until it expires.
+// ============================================
+
+export const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001"
+
+const SESSION_STORAGE_PREFIX = "spendhq-session:"
+
+interface StoredSession {
+  token: string
+  expiresAt: string
+}
+
+function sessionKey(address: Address) {
+  return `${SESSION_STORAGE_PREFIX}${address.toLowerCase()}`
+}
+
+function getStoredToken(address: Address): string | null {
+  const raw = localStorage.getItem(sessionKey(address))
+  if (!raw) return null
+
+  try {
+    const session = JSON.parse(raw) as StoredSession
+    if (new Date(session.expiresAt).getTime() > Date.now()) {
+      return session.token
+    }
+  } catch {
+    // Corrupt entry - sign in again
+  }
+
+  localStorage.removeItem(sessionKey(address))
+  return null
+}
+
+async function signIn(
+  address: Address,
+  chainId: number,
+  signMessage: (args: { message: string }) => Promise<`0x${string}`>
+): Promise<string> {
+  const nonceResponse = await fetch(`${BACKEND_URL}/api/auth/nonce`)
+  const nonceData = await nonceResponse.json()
+
+  if (!nonceResponse.ok) {
+    throw new Error(nonceData.error || "Failed to start sign-in")
+  }
+
+  const message = createSiweMessage({
+    address,
+    chainId,
+    domain: window.location.host,
+    uri: window.location.origin,
+    nonce: nonceData.nonce,
+    version: "1",
+    statement: "Sign in to SpendHQ to manage your agents.",
+    issuedAt: new Date(),
+  })
+
+  const signature = await signMessage({ message })
+
+  const verifyResponse = await fetch(`${BACKEND_URL}/api/auth/verify`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, signature }),
+  })
+  const verifyData = await verifyResponse.json()
+
+  if (!verifyResponse.ok) {
+    throw new Error(verifyData.error || "Sign-in failed")
+  }
+
+  const session: StoredSession = { token: verifyData.token, expiresAt: verifyData.expiresAt }
+  localStorage.setItem(sessionKey(address), JSON.stringify(session))
+
+  return session.token
+}
+
+/**
+ * fetch() for backend routes that need the signed-in wallet
+ * Paths are relative to BACKEND_URL, e.g. "/api/agents/dca"
+ */
+export function useBackendFetch() {
+  const { address, chainId } = useAccount()
+  const { signMessageAsync } = useSignMessage()
+
+  return useCallback(
+    async (path: string, init: RequestInit = {}) => {
+      if (!address || !chainId) {
+        throw new Error("Connect your wallet first")
+      }
+
+      const send = (token: string) =>
+        fetch(`${BACKEND_URL}${path}`, {
+          ...init,
+          headers: {
+            "Content-Type": "application/json",
+            ...init.headers,
+            Authorization: `Bearer ${token}`,
+          },
+        })
+
+      const token = getStoredToken(address) ?? (await signIn(address, chainId, signMessageAsync))
+      const response = await send(token)
+
+      // Session expired or revoked server-side - sign in once more
+      if (response.status === 401) {
+        localStorage.removeItem(sessionKey(address))
+        return send(await signIn(address, chainId, signMessageAsync))
+      }
+
+      return response
+    },
+    [address, chainId, signMessageAsync]
+  )
+}
@@ -0,0 +1,64 @@
+// ============================================
+// Execution error explanations
+//
+// The agent service decodes reverts from the DelegationManager and caveat
+// enforcers into error codes. These turn them into messages for the dashboard.
+// ============================================
+
+export interface ExecutionError {
+  code: string
+  message?: string
+  timestamp: string
+}
+
+interface PermissionPeriod {
+  startTime: number
+  spendingPeriod: number
+}
+
+// Start of the spending period after the given time (the allowance resets then)
+function nextPeriodStart(permission: PermissionPeriod, after: Date): Date {
+  const at = Math.floor(after.getTime() / 1000)
+  if (at < permission.startTime) return new Date(permission.startTime * 1000)
+
+  const periodsElapsed = Math.floor((at - permission.startTime) / permission.spendingPeriod)
+  return new Date((permission.startTime + (periodsElapsed + 1) * permission.spendingPeriod) * 1000)
+}
+
+function formatDate(date: Date) {
+  return date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+export function describeExecutionError(error: ExecutionError, permission: PermissionPeriod): string {
+  switch (error.code) {
+    case "allowance-exhausted":
+      return `Period allowance exhausted until ${formatDate(nextPeriodStart(permission, new Date(error.timestamp)))}`
+    case "period-not-started":
+      return `Spending period starts ${formatDate(new Date(permission.startTime * 1000))}`
+    case "delegation-not-yet-valid":
+      return "The permission is not valid yet"
+    case "delegation-expired":
+      return "The permission has expired. Grant a new one to keep this agent running"
+    case "delegation-disabled":
+      return "The permission was disabled on-chain. Re-enable it to resume this agent"
+    case "delegation-manager-paused":
+      return "The delegation framework is paused. Executions resume when it is unpaused"
+    case "invalid-delegate":
+      return "The permission was granted to a different agent key"
+    case "invalid-delegation-chain":
+    case "invalid-signature":
+      return "The signed permission is invalid. Grant a new one to keep this agent running"
+    case "invalid-permission-terms":
+      return "The permission does not allow this execution"
+    case "insufficient-balance":
+      return "Your wallet does not hold enough of the token for the next execution"
+    case "insufficient-allowance":
+      return "The token allowance is too low for the next execution"
+    case "transaction-reverted":
+      return error.message || "The transaction reverted on-chain"
+    case "lease-lost":
+      return "The execution ran out of time and was stopped before it finished"
+    default:
+      return error.message || "The last execution failed"
+  }
+}